@@ -0,0 +1,30 @@
+// scripts/set-role.ts
+//
+// Sets a user's role from the command line, which is how the first admin gets made:
+//
+//   npm run set-role -- someone@example.com admin
+//
+// It uses the same settings as the app (.env.local, then .env), so it changes the emulator's users
+// when NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST is set. Against a real project it needs Application
+// Default Credentials, e.g. from `gcloud auth application-default login`.
+
+import { config } from 'dotenv';
+config({ path: ['.env.local', '.env'] });
+
+import { setUserRole } from '@/lib/firebase/admin';
+import { isRole, ROLES } from '@/lib/roles';
+
+async function main() {
+  const [email, role] = process.argv.slice(2);
+  if (!email || !isRole(role)) {
+    console.error(`Usage: npm run set-role -- <email> <${ROLES.join('|')}>`);
+    process.exit(1);
+  }
+  const user = await setUserRole(email, role);
+  console.log(`${email} (${user.uid}) is now a ${role}. They'll see it the next time they log in.`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
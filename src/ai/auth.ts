@@ -0,0 +1,54 @@
+// src/ai/auth.ts
+
+/**
+ * @fileOverview Who is calling the AI flows. Callers send a Firebase ID token, which is verified with the Admin SDK (see src/lib/firebase/admin.ts) and passed to the flow as its context.
+ *
+ * - authContext - Verifies an ID token and returns the context to run a flow with. Used by the server actions.
+ * - firebaseAuth - The same for routes served with appRoute, reading the token from the Authorization header.
+ * - requireUser - Returns the verified user from inside a flow, or throws if the flow was run without one.
+ */
+
+import {UserFacingError, type ActionContext} from 'genkit';
+import type {ContextProvider} from 'genkit/context';
+import {ai} from '@/ai/genkit';
+import {verifyIdToken} from '@/lib/firebase/admin';
+
+export interface FlowUser {
+  uid: string;
+  email?: string;
+  // Every claim in the ID token, including custom claims set with the Admin SDK.
+  claims: Record<string, unknown>;
+}
+
+export interface AuthContext extends ActionContext {
+  auth: FlowUser;
+}
+
+export async function authContext(idToken: string | undefined): Promise<AuthContext> {
+  if (!idToken) {
+    throw new UserFacingError('UNAUTHENTICATED', 'Please log in to ask EduMentor.');
+  }
+  let token;
+  try {
+    token = await verifyIdToken(idToken);
+  } catch (e) {
+    console.warn('Rejected an ID token:', e);
+    throw new UserFacingError('UNAUTHENTICATED', 'Your session has expired. Please log in again.');
+  }
+  // The same rule the app applies before showing anything (needsEmailVerification in src/lib/firebase/account.ts).
+  if (token.firebase.sign_in_provider === 'password' && !token.email_verified) {
+    throw new UserFacingError('PERMISSION_DENIED', 'Please verify your email address first.');
+  }
+  return {auth: {uid: token.uid, email: token.email, claims: token}};
+}
+
+export const firebaseAuth: ContextProvider<AuthContext> = ({headers}) =>
+  authContext(headers['authorization']?.match(/^Bearer (.+)$/)?.[1]);
+
+export function requireUser(): FlowUser {
+  const user = ai.currentContext()?.auth as FlowUser | undefined;
+  if (!user?.uid) {
+    throw new UserFacingError('UNAUTHENTICATED', 'Please log in to ask EduMentor.');
+  }
+  return user;
+}
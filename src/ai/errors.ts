@@ -0,0 +1,96 @@
+// src/ai/errors.ts
+
+/**
+ * @fileOverview Maps failures from the AI layer onto a small set of error codes the UI knows how to present.
+ *
+ * - AnswerErrorSchema - The schema of an error returned by a flow instead of a result.
+ * - AnswerErrorCode - The type of the error codes a flow can return.
+ * - toAnswerError - Classifies a thrown error into an AnswerError with a student-facing message.
+ * - ActionResult - What server actions return instead of throwing, since Next.js hides the message of errors thrown from them.
+ */
+
+import {GenerationBlockedError, UserFacingError, z} from 'genkit';
+import {ProviderBlockedError, ProviderHttpError} from '@/ai/providers';
+import {QuotaExceededError} from '@/ai/quota';
+
+export const AnswerErrorCodeSchema = z.enum(['overloaded', 'safety-blocked', 'quota', 'timeout', 'auth', 'unknown']);
+export type AnswerErrorCode = z.infer<typeof AnswerErrorCodeSchema>;
+
+export const AnswerErrorSchema = z.object({
+  code: AnswerErrorCodeSchema.describe('What kind of failure occurred.'),
+  message: z.string().describe('A message explaining the failure to the student.'),
+});
+export type AnswerError = z.infer<typeof AnswerErrorSchema>;
+
+export type ActionResult<T> = {status: 'ok'; result: T} | {status: 'error'; error: AnswerError};
+
+const errorMessages: Record<AnswerErrorCode, string> = {
+  overloaded: "I'm sorry, the AI service is currently overloaded. Please try again in a few moments.",
+  'safety-blocked': 'This answer was blocked by the safety filters. Please try rephrasing your question.',
+  quota: 'The AI usage limit has been reached. Please try again later.',
+  timeout: 'The AI took too long to respond. Please try again.',
+  auth: 'Please log in again.',
+  unknown: 'An unexpected error occurred while generating the answer.',
+};
+
+// How Gemini says it refused: a blocked prompt has a block reason, a blocked answer one of these finish reasons.
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII'];
+
+function isSafetyBlock(e: object): boolean {
+  if (e instanceof GenerationBlockedError || e instanceof ProviderBlockedError) {
+    return true;
+  }
+  // The Gemini SDK's own errors carry the response they were raised for.
+  if (!('response' in e) || typeof e.response !== 'object' || e.response === null) {
+    return false;
+  }
+  const response: {promptFeedback?: {blockReason?: unknown}; candidates?: {finishReason?: unknown}[]} = e.response;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  return (
+    Boolean(response.promptFeedback?.blockReason) ||
+    (typeof finishReason === 'string' && BLOCKED_FINISH_REASONS.includes(finishReason))
+  );
+}
+
+function classify(e: unknown): AnswerErrorCode {
+  if (typeof e !== 'object' || e === null) {
+    return 'unknown';
+  }
+  if (isSafetyBlock(e)) {
+    return 'safety-blocked';
+  }
+  const name = 'name' in e ? e.name : undefined;
+  const status = 'status' in e ? e.status : undefined;
+  const message = 'message' in e && typeof e.message === 'string' ? e.message : '';
+  if (name === 'TimeoutError' || status === 'DEADLINE_EXCEEDED' || /timed? ?out|deadline/i.test(message)) {
+    return 'timeout';
+  }
+  if (
+    (e instanceof ProviderHttpError && e.status === 429) ||
+    status === 'RESOURCE_EXHAUSTED' ||
+    /quota|rate limit|\b429\b/i.test(message)
+  ) {
+    return 'quota';
+  }
+  if (
+    (e instanceof ProviderHttpError && e.status >= 500) ||
+    status === 'UNAVAILABLE' ||
+    /service unavailable|overloaded|\b503\b/i.test(message)
+  ) {
+    return 'overloaded';
+  }
+  return 'unknown';
+}
+
+export function toAnswerError(e: unknown): AnswerError {
+  // Our own limits say which one was hit and when it resets.
+  if (e instanceof QuotaExceededError) {
+    return {code: 'quota', message: e.message};
+  }
+  // From authContext (src/ai/auth.ts): the student has to log in again or verify their email, and is told which.
+  if (e instanceof UserFacingError && (e.status === 'UNAUTHENTICATED' || e.status === 'PERMISSION_DENIED')) {
+    return {code: 'auth', message: e.message};
+  }
+  const code = classify(e);
+  return {code, message: errorMessages[code]};
+}
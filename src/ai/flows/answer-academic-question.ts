@@ -1,36 +1,60 @@
 
 // AnswerAcademicQuestion.ts
-'use server';
+// Not 'use server': the flow is only reached through /api/answer, which checks the caller's ID token.
 
 /**
- * @fileOverview This file defines a Genkit flow for answering academic questions with a fallback mechanism.
+ * @fileOverview This file defines a Genkit flow for answering academic questions, falling back across the providers in src/ai/providers.ts.
  *
- * - answerAcademicQuestion - A function that handles the process of answering academic questions.
- * - AnswerAcademicQuestionInput - The input type for the answerAcademicQuestion function.
- * - AnswerAcademicQuestionOutput - The return type for the answerAcademicQuestion function.
+ * - answerAcademicQuestionFlow - The streaming flow that answers academic questions for the signed-in user, served from /api/answer, which takes the user's Firebase ID token as a Bearer token.
+ * - AnswerAcademicQuestionInput - The input type for the answerAcademicQuestionFlow.
+ * - AnswerAcademicQuestionOutput - The return type for the answerAcademicQuestionFlow.
  */
 
 import {ai} from '@/ai/genkit';
+import {ConversationSummarySchema, ConversationTurnSchema, prepareHistory} from '@/ai/history';
+import {generateWithFallback} from '@/ai/providers';
+import {AnswerErrorSchema, toAnswerError} from '@/ai/errors';
+import {requireUser} from '@/ai/auth';
+import {consumeQuota, QuotaExceededError} from '@/ai/quota';
 import {z} from 'genkit';
+import {MAX_QUESTION_IMAGE_BYTES, MAX_QUESTION_IMAGES} from '@/lib/images';
+
+// Base64 takes 4 characters for every 3 bytes, plus the "data:image/jpeg;base64," prefix.
+const MAX_IMAGE_DATA_URI_LENGTH = Math.ceil(MAX_QUESTION_IMAGE_BYTES / 3) * 4 + 32;
+
+const QuestionImageSchema = z
+  .string()
+  .max(MAX_IMAGE_DATA_URI_LENGTH, 'Each image must be under 10 MB.')
+  .regex(/^data:image\/(png|jpeg|webp);base64,[A-Za-z0-9+/]+={0,2}$/, 'Images must be PNG, JPEG or WebP data URIs.');
 
 const AnswerAcademicQuestionInputSchema = z.object({
   question: z.string().describe('The academic question to be answered.'),
+  history: z
+    .array(ConversationTurnSchema)
+    .optional()
+    .describe('The earlier turns of the conversation, oldest first.'),
+  summary: ConversationSummarySchema.optional().describe('The summary returned with the previous answer in this conversation, if any.'),
+  images: z
+    .array(QuestionImageSchema)
+    .max(MAX_QUESTION_IMAGES)
+    .optional()
+    .describe("Photos of the question, such as a textbook page or handwritten work, as data URIs that include a MIME type and Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."),
 });
 export type AnswerAcademicQuestionInput = z.infer<typeof AnswerAcademicQuestionInputSchema>;
 
 const AnswerAcademicQuestionOutputSchema = z.object({
-  answer: z.string().describe('The AI-generated answer to the question.'),
+  status: z.enum(['ok', 'error']).describe('Whether an answer was generated.'),
+  answer: z.string().describe('The AI-generated answer to the question. Empty when status is "error".'),
   visualAids: z
     .string()
     .optional()
     .describe('Visual aids such as diagrams or formatted code (as a data URI).'),
+  provider: z.string().optional().describe('The name of the model provider that produced the answer.'),
+  error: AnswerErrorSchema.optional().describe('Why no answer was generated, when status is "error".'),
+  summary: ConversationSummarySchema.optional().describe('The summary of the older turns, to send back with the next question instead of making a new one.'),
 });
 export type AnswerAcademicQuestionOutput = z.infer<typeof AnswerAcademicQuestionOutputSchema>;
 
-export async function answerAcademicQuestion(input: AnswerAcademicQuestionInput): Promise<AnswerAcademicQuestionOutput> {
-  return answerAcademicQuestionFlow(input);
-}
-
 const generateVisualAids = ai.defineTool(
   {
     name: 'generateVisualAids',
@@ -41,6 +65,13 @@ const generateVisualAids = ai.defineTool(
     outputSchema: z.string().describe('A data URI containing the visual aid (diagram, chart, etc.)'),
   },
   async (input) => {
+    try {
+      await consumeQuota(requireUser(), 'images', {countRequest: false});
+    } catch (e) {
+      // The answer is still worth giving without its picture.
+      if (e instanceof QuotaExceededError) return `No visual aid generated: ${e.message}`;
+      throw e;
+    }
     const {media} = await ai.generate({
       model: 'googleai/gemini-2.0-flash-preview-image-generation',
       prompt: `Question: ${input.question}. Generate a visual aid like an image, diagram, or chart to help explain the answer to this question. Important: Any text in the visual aid must be in English.`,
@@ -57,12 +88,18 @@ const generateVisualAids = ai.defineTool(
   }
 );
 
+const ExpertTutorPromptInputSchema = z.object({
+  question: z.string(),
+  images: z.array(QuestionImageSchema).max(MAX_QUESTION_IMAGES).optional(),
+  conversationSummary: z.string().optional(),
+});
+
 const expertTutorPrompt = ai.definePrompt(
   {
     name: 'expertTutorPrompt',
-    input: {schema: AnswerAcademicQuestionInputSchema},
+    input: {schema: ExpertTutorPromptInputSchema},
     tools: [generateVisualAids],
-    prompt: `You are an expert tutor. Your goal is to provide a perfectly structured, interactive, and easy-to-read answer to the user's academic question. Your tone should be encouraging and supportive.
+    system: `You are an expert tutor. Your goal is to provide a perfectly structured, interactive, and easy-to-read answer to the user's academic question. Your tone should be encouraging and supportive.
 
 Follow this exact format for your answers. Use markdown.
 
@@ -72,6 +109,9 @@ Follow this exact format for your answers. Use markdown.
 3.  If the question involves a concept that can be taught step-by-step, ask clarifying questions to understand the user's level and guide them.
 4.  If the question involves coding, include a final "👋 Example Code:" section with a clear, simple code snippet.
 5.  If you think a visual aid (like a diagram, chart, or image) would be helpful to explain your answer, use the generateVisualAids tool.
+6.  Write all math in LaTeX: use $...$ for inline math and $$...$$ on their own lines for display equations. Never write formulas as plain text or ASCII art.
+7.  This is an ongoing conversation. Build on what the student already told you (for example their answers to your clarifying questions) instead of asking again.
+8.  If the student attached photos (a textbook page, a worksheet, handwritten working, a diagram), read them carefully and answer the question they show. If part of a photo is unreadable, say which part and ask the student to type it.
 
 **Example 1: Perfect output for the question "what is python":**
 
@@ -188,50 +228,69 @@ Every day, practice 3–5 simple sentences about:
 - Kal main kya karunga? (What will I do tomorrow?)
 
 Reply in your own English, and I’ll correct and guide you. Let’s practice together! 😊
+{{#if conversationSummary}}
 ---
-Now, answer the following question following the rules and examples above.
-
-Question:
-{{{question}}}`,
+Summary of the earlier part of this conversation:
+{{{conversationSummary}}}
+{{/if}}
+---
+Now, answer the student's latest message following the rules and examples above.`,
+    prompt: `{{{question}}}{{#each images}}{{media url=this}}{{/each}}`,
   }
 );
 
 
-const answerAcademicQuestionFlow = ai.defineFlow(
+export const answerAcademicQuestionFlow = ai.defineFlow(
   {
     name: 'answerAcademicQuestionFlow',
     inputSchema: AnswerAcademicQuestionInputSchema,
     outputSchema: AnswerAcademicQuestionOutputSchema,
+    streamSchema: z.string().describe('A chunk of the answer text as it is generated.'),
   },
-  async (input) => {
+  async (input, {sendChunk, abortSignal}): Promise<AnswerAcademicQuestionOutput> => {
+    // Outside the try, so a missing user is an error for the caller rather than a failed answer.
+    const user = requireUser();
     try {
-      const llmResponse = await expertTutorPrompt(input);
+      await consumeQuota(user, 'text');
+      const {messages, summary} = await prepareHistory(input.history ?? [], input.summary);
+      const request = await expertTutorPrompt.render(
+        {question: input.question, images: input.images, conversationSummary: summary?.text},
+        {messages}
+      );
+      const llmResponse = await generateWithFallback({
+        messages: request.messages ?? [],
+        tools: request.tools,
+        onChunk: sendChunk,
+        // Aborted when a client of /api/answer disconnects, so a stopped answer stops costing tokens.
+        abortSignal,
+      });
 
       const answer = llmResponse.text;
       if (!answer) {
-        throw new Error("Failed to generate an answer from Gemini.");
+        throw new Error(`Failed to generate an answer from ${llmResponse.provider}.`);
       }
 
-      const toolRequest = llmResponse.toolRequests[0];
+      // Tools are run automatically, so pick the visual aid out of the tool responses.
       let visualAids: string | undefined = undefined;
-
-      if (toolRequest && toolRequest.tool.name === 'generateVisualAids') {
-        const toolResponse = await toolRequest.run();
-        if (typeof toolResponse === 'string') {
-          visualAids = toolResponse;
+      for (const message of llmResponse.messages) {
+        for (const part of message.content) {
+          if (part.toolResponse?.name === 'generateVisualAids' && typeof part.toolResponse.output === 'string' && part.toolResponse.output.startsWith('data:')) {
+            visualAids = part.toolResponse.output;
+          }
         }
       }
       
-      return { answer, visualAids };
+      return { status: 'ok', answer, visualAids, provider: llmResponse.provider, summary };
 
-    } catch (e: any) {
-       console.error("AI service failed:", e);
-       let errorMessage = "An unexpected error occurred while generating the answer.";
-       if (e.message && (e.message.includes('Service Unavailable') || e.message.includes('overloaded'))) {
-           errorMessage = "I'm sorry, the AI service is currently overloaded. Please try again in a few moments.";
+    } catch (e) {
+       if (abortSignal.aborted) {
+         return {status: 'error', answer: '', error: {code: 'unknown', message: 'The answer was stopped.'}};
        }
+       console.error("AI service failed:", e);
        return {
-         answer: errorMessage,
+         status: 'error',
+         answer: '',
+         error: toAnswerError(e),
        };
     }
   }
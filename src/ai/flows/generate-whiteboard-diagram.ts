@@ -4,14 +4,19 @@
 /**
  * @fileOverview Generates diagrams based on a text prompt to visualize concepts on a collaborative whiteboard.
  *
- * - generateWhiteboardDiagram - A function that generates diagrams based on the given text prompt.
+ * - generateWhiteboardDiagram - A function that generates diagrams based on the given text prompt. Like generateVectorDiagram, it needs the caller's Firebase ID token, and returns an ActionResult so a failure (such as running out of quota) can be explained.
  * - GenerateWhiteboardDiagramInput - The input type for the generateWhiteboardDiagram function.
  * - GenerateWhiteboardDiagramOutput - The return type for the generateWhiteboardDiagram function, which contains the data URI of the generated image.
+ * - generateVectorDiagram - The editable alternative: describes the diagram as nodes and edges (see src/lib/whiteboard/diagram-spec.ts) for the whiteboard to draw as shapes and text.
  */
 
 import {ai} from '@/ai/genkit';
+import {authContext, requireUser} from '@/ai/auth';
+import {toAnswerError, type ActionResult} from '@/ai/errors';
+import {consumeQuota} from '@/ai/quota';
 import {z} from 'genkit';
-import wav from 'wav';
+import {ValidationError} from 'genkit/schema';
+import {DiagramSpecSchema, type DiagramSpec} from '@/lib/whiteboard/diagram-spec';
 
 const GenerateWhiteboardDiagramInputSchema = z.object({
   prompt: z.string().describe('A text prompt describing the diagram to generate.'),
@@ -28,9 +33,20 @@ const GenerateWhiteboardDiagramOutputSchema = z.object({
 export type GenerateWhiteboardDiagramOutput = z.infer<typeof GenerateWhiteboardDiagramOutputSchema>;
 
 export async function generateWhiteboardDiagram(
-  input: GenerateWhiteboardDiagramInput
-): Promise<GenerateWhiteboardDiagramOutput> {
-  return generateWhiteboardDiagramFlow(input);
+  input: GenerateWhiteboardDiagramInput,
+  idToken: string
+): Promise<ActionResult<GenerateWhiteboardDiagramOutput>> {
+  return toActionResult(authContext(idToken).then(context => generateWhiteboardDiagramFlow(input, {context})));
+}
+
+// Checking the token happens in here too, so being logged out comes back as an error the whiteboard can show.
+async function toActionResult<T>(run: Promise<T>): Promise<ActionResult<T>> {
+  try {
+    return {status: 'ok', result: await run};
+  } catch (e) {
+    console.error('Diagram generation failed:', e);
+    return {status: 'error', error: toAnswerError(e)};
+  }
 }
 
 const generateDiagramPrompt = ai.definePrompt({
@@ -54,6 +70,7 @@ const generateWhiteboardDiagramFlow = ai.defineFlow(
     outputSchema: GenerateWhiteboardDiagramOutputSchema,
   },
   async input => {
+    await consumeQuota(requireUser(), 'images');
     const {media} = await ai.generate({
       model: 'googleai/gemini-2.0-flash-preview-image-generation',
       prompt: input.prompt,
@@ -69,3 +86,67 @@ const generateWhiteboardDiagramFlow = ai.defineFlow(
     return {diagramDataUri: media.url!};
   }
 );
+
+export async function generateVectorDiagram(
+  input: GenerateWhiteboardDiagramInput,
+  idToken: string
+): Promise<ActionResult<DiagramSpec>> {
+  return toActionResult(authContext(idToken).then(context => generateVectorDiagramFlow(input, {context})));
+}
+
+// Models occasionally return a spec that doesn't hold together, so it gets one more try with the problems pointed out.
+const MAX_SPEC_ATTEMPTS = 2;
+
+const vectorDiagramPrompt = ai.definePrompt({
+  name: 'vectorDiagramPrompt',
+  input: {
+    schema: GenerateWhiteboardDiagramInputSchema.extend({
+      problems: z.string().optional().describe('What was wrong with the previous attempt, if there was one.'),
+    }),
+  },
+  output: {schema: DiagramSpecSchema},
+  prompt: `You are an AI assistant that designs clear diagrams for students, drawn on a whiteboard.
+Describe the diagram as a set of labelled nodes connected by arrows, rather than drawing it.
+
+Rules:
+1. Use between 3 and 12 nodes. Labels are a few words, in English and spelled correctly.
+2. Give each node a short unique id, and make every edge's "from" and "to" one of those ids.
+3. Only label an edge when the relationship isn't obvious, and keep the label to a word or two.
+4. Choose TB for hierarchies, cycles and processes, and LR for sequences and timelines.
+
+User Request: {{{prompt}}}
+{{#if problems}}
+
+Your previous answer had these problems; fix them:
+{{{problems}}}
+{{/if}}
+`,
+});
+
+const generateVectorDiagramFlow = ai.defineFlow(
+  {
+    name: 'generateVectorDiagramFlow',
+    inputSchema: GenerateWhiteboardDiagramInputSchema,
+    outputSchema: DiagramSpecSchema,
+  },
+  async input => {
+    await consumeQuota(requireUser(), 'text');
+    let problems: string | undefined;
+    for (let attempt = 0; attempt < MAX_SPEC_ATTEMPTS; attempt++) {
+      try {
+        const {output} = await vectorDiagramPrompt({...input, problems});
+        // The output schema can't express that edges must point at real nodes, so check it here.
+        const spec = DiagramSpecSchema.safeParse(output);
+        if (spec.success) {
+          return spec.data;
+        }
+        problems = spec.error.issues.map(issue => `- ${issue.path.join('.')}: ${issue.message}`).join('\n');
+      } catch (e) {
+        // Output that doesn't match the schema at all is rejected by Genkit before we see it.
+        if (!(e instanceof ValidationError)) throw e;
+        problems = `- ${e.message}`;
+      }
+    }
+    throw new Error('No valid diagram was generated.');
+  }
+);
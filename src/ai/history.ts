@@ -0,0 +1,106 @@
+// src/ai/history.ts
+
+/**
+ * @fileOverview Helpers for feeding prior chat turns to the model as conversation history.
+ *
+ * - ConversationTurnSchema - The schema of a single prior turn of the conversation.
+ * - ConversationTurn - The type of a single prior turn of the conversation.
+ * - ConversationSummarySchema - The schema of a summary of the start of a conversation, which the app keeps with the conversation and sends back.
+ * - ConversationSummary - The type of that summary.
+ * - prepareHistory - Trims a transcript to the token budget, summarizing the turns that don't fit. Only turns the previous summary doesn't cover are summarized.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z, type MessageData} from 'genkit';
+
+export const ConversationTurnSchema = z.object({
+  role: z.enum(['user', 'assistant']).describe('Who sent the message.'),
+  content: z.string().describe('The text of the message.'),
+});
+export type ConversationTurn = z.infer<typeof ConversationTurnSchema>;
+
+const MAX_SUMMARY_CHARS = 4000;
+
+export const ConversationSummarySchema = z.object({
+  text: z.string().max(MAX_SUMMARY_CHARS).describe('A short summary of the start of the conversation.'),
+  turns: z.number().int().min(0).describe('How many turns, from the first, the summary covers.'),
+});
+export type ConversationSummary = z.infer<typeof ConversationSummarySchema>;
+
+// Rough budget for verbatim history; older turns are folded into a summary.
+const HISTORY_TOKEN_BUDGET = 6000;
+
+// ~4 characters per token is close enough for English text and markdown.
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Most of a summary update is a few turns, but a long conversation from before summaries were kept
+// (or a summary the app lost) would otherwise send the whole thing. Only the end of it is read then.
+const MAX_TRANSCRIPT_CHARS = 16_000;
+
+const summarizeConversationPrompt = ai.definePrompt({
+  name: 'summarizeConversationPrompt',
+  input: {schema: z.object({transcript: z.string(), previousSummary: z.string().optional()})},
+  prompt: `Summarize the following tutoring conversation between a student and a tutor in a few short bullet points.
+Keep the student's level, goals and any answers they gave to the tutor's questions, plus the topics already covered.
+{{#if previousSummary}}
+
+This is how the conversation started, already summarized; fold it into your summary:
+{{{previousSummary}}}
+
+How it continued:
+{{else}}
+
+Conversation:
+{{/if}}
+{{{transcript}}}`,
+});
+
+const toMessageData = (turn: ConversationTurn): MessageData => ({
+  role: turn.role === 'assistant' ? 'model' : 'user',
+  content: [{text: turn.content}],
+});
+
+export async function prepareHistory(
+  turns: ConversationTurn[],
+  previous?: ConversationSummary
+): Promise<{messages: MessageData[]; summary?: ConversationSummary}> {
+  let remaining = HISTORY_TOKEN_BUDGET;
+  let start = turns.length;
+  while (start > 0) {
+    const cost = estimateTokens(turns[start - 1].content);
+    if (cost > remaining) break;
+    remaining -= cost;
+    start--;
+  }
+  // The model expects the history to open with a user turn.
+  while (start < turns.length && turns[start].role !== 'user') {
+    start++;
+  }
+
+  const messages = turns.slice(start).map(toMessageData);
+  if (start === 0) {
+    return {messages};
+  }
+  // A summary that reaches past the end of the history is from a different one, so it's ignored.
+  const usable = previous && previous.turns <= turns.length ? previous : undefined;
+  // Already covered: the summary can overlap the turns sent in full, which does no harm.
+  if (usable && usable.turns >= start) {
+    return {messages, summary: usable};
+  }
+
+  try {
+    let transcript = turns
+      .slice(usable?.turns ?? 0, start)
+      .map(turn => `${turn.role === 'user' ? 'Student' : 'Tutor'}: ${turn.content}`)
+      .join('\n\n');
+    if (transcript.length > MAX_TRANSCRIPT_CHARS) {
+      transcript = `…${transcript.slice(-MAX_TRANSCRIPT_CHARS)}`;
+    }
+    const {text} = await summarizeConversationPrompt({transcript, previousSummary: usable?.text});
+    return {messages, summary: text ? {text: text.slice(0, MAX_SUMMARY_CHARS), turns: start} : usable};
+  } catch (e) {
+    // Losing the summary only costs context, so don't fail the answer over it.
+    console.error('Failed to summarize conversation history:', e);
+    return {messages, summary: usable};
+  }
+}
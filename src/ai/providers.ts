@@ -0,0 +1,328 @@
+// src/ai/providers.ts
+
+/**
+ * @fileOverview An ordered chain of model providers that answers are generated from, falling back when one is unavailable.
+ *
+ * - ModelProvider - The interface every provider in the chain implements.
+ * - getProviderChain - Returns the configured providers, in the order they should be tried.
+ * - generateWithFallback - Runs a request through the chain with retries, backoff and per-provider circuit breaking.
+ *
+ * The chain is configured with environment variables:
+ * - AI_PROVIDERS - Comma separated provider ids to try in order (default: "gemini,openai,ollama").
+ * - OPENAI_COMPAT_BASE_URL / OPENAI_COMPAT_API_KEY / OPENAI_COMPAT_MODEL - Any OpenAI-compatible endpoint.
+ *   Falls back to DeepSeek when only DEEPSEEK_API_KEY is set.
+ * - OLLAMA_BASE_URL / OLLAMA_MODEL - A local Ollama-style server.
+ * - AI_PROVIDER_TIMEOUT_MS - How long a single attempt may take before it is abandoned.
+ */
+
+import {ai} from '@/ai/genkit';
+import {GenerationBlockedError, type GenerateOptions, type MessageData} from 'genkit';
+
+export interface ProviderRequest {
+  messages: MessageData[];
+  tools?: GenerateOptions['tools'];
+  onChunk: (text: string) => void;
+  abortSignal: AbortSignal;
+}
+
+export interface ProviderResult {
+  text: string;
+  messages: MessageData[];
+}
+
+export interface ModelProvider {
+  id: string;
+  label: string;
+  generate(request: ProviderRequest): Promise<ProviderResult>;
+}
+
+export class ProviderHttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = 'ProviderHttpError';
+  }
+}
+
+/** A provider's content filter stopped the answer, which it reports as the finish reason rather than an HTTP error. */
+export class ProviderBlockedError extends Error {
+  constructor(readonly finishReason: string) {
+    super(`The answer was stopped by the provider's content filter (${finishReason}).`);
+    this.name = 'ProviderBlockedError';
+  }
+}
+
+const MAX_RETRIES = 2;
+const BASE_BACKOFF_MS = 500;
+const FAILURE_THRESHOLD = 3;
+const CIRCUIT_COOLDOWN_MS = 30_000;
+const DEFAULT_TIMEOUT_MS = 90_000;
+
+const geminiProvider: ModelProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  async generate({messages, tools, onChunk, abortSignal}) {
+    const {stream, response} = ai.generateStream({messages, tools, abortSignal});
+    for await (const chunk of stream) {
+      if (chunk.text) {
+        onChunk(chunk.text);
+      }
+    }
+    const result = await response;
+    return {text: result.text, messages: result.messages};
+  },
+};
+
+// Tools are Gemini-only, so other providers get the text and images of each message.
+const toChatMessages = (messages: MessageData[]) =>
+  messages
+    .filter(message => message.role !== 'tool')
+    .map(message => ({
+      role: message.role === 'model' ? 'assistant' : message.role,
+      content: message.content.map(part => part.text ?? '').join(''),
+      images: message.content.flatMap(part => (part.media ? [part.media.url] : [])),
+    }));
+
+// OpenAI-style APIs take images as content parts alongside the text.
+const toOpenAIMessages = (messages: MessageData[]) =>
+  toChatMessages(messages).map(({role, content, images}) => ({
+    role,
+    content: images.length
+      ? [{type: 'text', text: content}, ...images.map(url => ({type: 'image_url', image_url: {url}}))]
+      : content,
+  }));
+
+// Ollama takes images as bare Base64, without the data URI prefix.
+const toOllamaMessages = (messages: MessageData[]) =>
+  toChatMessages(messages).map(({role, content, images}) => ({
+    role,
+    content,
+    ...(images.length ? {images: images.map(url => url.slice(url.indexOf(',') + 1))} : {}),
+  }));
+
+async function* readLines(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const {value, done} = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, {stream: true});
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) yield line;
+    }
+  }
+  if (buffer.trim()) yield buffer.trim();
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string>, abortSignal: AbortSignal) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {'Content-Type': 'application/json', ...headers},
+    body: JSON.stringify(body),
+    signal: abortSignal,
+  });
+  if (!response.ok || !response.body) {
+    throw new ProviderHttpError(`${url} returned ${response.status}: ${await response.text()}`, response.status);
+  }
+  return response.body;
+}
+
+function openAICompatibleProvider(): ModelProvider | null {
+  const apiKey = process.env.OPENAI_COMPAT_API_KEY ?? process.env.DEEPSEEK_API_KEY;
+  const baseUrl = process.env.OPENAI_COMPAT_BASE_URL ?? (process.env.DEEPSEEK_API_KEY ? 'https://api.deepseek.com' : undefined);
+  if (!baseUrl) return null;
+  const model = process.env.OPENAI_COMPAT_MODEL ?? 'deepseek-chat';
+
+  return {
+    id: 'openai',
+    label: process.env.OPENAI_COMPAT_LABEL ?? (baseUrl.includes('deepseek') ? 'DeepSeek' : model),
+    async generate({messages, onChunk, abortSignal}) {
+      const body = await postJson(
+        `${baseUrl.replace(/\/$/, '')}/chat/completions`,
+        {model, messages: toOpenAIMessages(messages), stream: true},
+        apiKey ? {Authorization: `Bearer ${apiKey}`} : {},
+        abortSignal
+      );
+      let text = '';
+      for await (const line of readLines(body)) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice('data:'.length).trim();
+        if (data === '[DONE]') break;
+        const choice = JSON.parse(data).choices?.[0];
+        if (choice?.finish_reason === 'content_filter') {
+          throw new ProviderBlockedError(choice.finish_reason);
+        }
+        const delta: string | undefined = choice?.delta?.content;
+        if (delta) {
+          text += delta;
+          onChunk(delta);
+        }
+      }
+      return {text, messages: []};
+    },
+  };
+}
+
+function ollamaProvider(): ModelProvider | null {
+  const baseUrl = process.env.OLLAMA_BASE_URL;
+  if (!baseUrl) return null;
+  const model = process.env.OLLAMA_MODEL ?? 'llama3.1';
+
+  return {
+    id: 'ollama',
+    label: `Ollama (${model})`,
+    async generate({messages, onChunk, abortSignal}) {
+      const body = await postJson(
+        `${baseUrl.replace(/\/$/, '')}/api/chat`,
+        {model, messages: toOllamaMessages(messages), stream: true},
+        {},
+        abortSignal
+      );
+      let text = '';
+      for await (const line of readLines(body)) {
+        const chunk = JSON.parse(line);
+        if (chunk.error) {
+          throw new Error(`Ollama error: ${chunk.error}`);
+        }
+        const delta: string | undefined = chunk.message?.content;
+        if (delta) {
+          text += delta;
+          onChunk(delta);
+        }
+        if (chunk.done) break;
+      }
+      return {text, messages: []};
+    },
+  };
+}
+
+export function getProviderChain(): ModelProvider[] {
+  const available: Record<string, () => ModelProvider | null> = {
+    gemini: () => geminiProvider,
+    openai: openAICompatibleProvider,
+    ollama: ollamaProvider,
+  };
+  const order = (process.env.AI_PROVIDERS ?? 'gemini,openai,ollama')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+
+  return order.flatMap(id => {
+    const provider = available[id]?.();
+    return provider ? [provider] : [];
+  });
+}
+
+interface CircuitState {
+  consecutiveFailures: number;
+  openUntil: number;
+}
+
+// Kept per server instance; a provider that keeps failing is skipped until the cooldown passes.
+const circuits = new Map<string, CircuitState>();
+
+const getCircuit = (id: string) => {
+  let circuit = circuits.get(id);
+  if (!circuit) {
+    circuit = {consecutiveFailures: 0, openUntil: 0};
+    circuits.set(id, circuit);
+  }
+  return circuit;
+};
+
+const recordFailure = (circuit: CircuitState) => {
+  circuit.consecutiveFailures++;
+  if (circuit.consecutiveFailures >= FAILURE_THRESHOLD) {
+    circuit.openUntil = Date.now() + CIRCUIT_COOLDOWN_MS;
+  }
+};
+
+const TRANSIENT_STATUSES = ['UNAVAILABLE', 'RESOURCE_EXHAUSTED', 'DEADLINE_EXCEEDED', 'INTERNAL'];
+const TRANSIENT_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'UND_ERR_SOCKET'];
+
+export function isTransientError(e: unknown): boolean {
+  if (e instanceof ProviderHttpError) {
+    return e.status === 429 || e.status >= 500;
+  }
+  if (typeof e !== 'object' || e === null) {
+    return false;
+  }
+  if ('name' in e && (e.name === 'TimeoutError' || e.name === 'AbortError')) {
+    return true;
+  }
+  // Genkit reports a model's failure as a status like 'UNAVAILABLE'; Node's network errors have a code.
+  if ('status' in e && typeof e.status === 'string' && TRANSIENT_STATUSES.includes(e.status)) {
+    return true;
+  }
+  if ('code' in e && typeof e.code === 'string' && TRANSIENT_CODES.includes(e.code)) {
+    return true;
+  }
+  const message = 'message' in e && typeof e.message === 'string' ? e.message : '';
+  return /service unavailable|overloaded|fetch failed|ECONNREFUSED|ECONNRESET|\b(429|500|502|503|504)\b/i.test(message);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export async function generateWithFallback(
+  // The caller's signal stops everything, e.g. when the student stops the answer; each attempt also has its own timeout.
+  {abortSignal, ...request}: Omit<ProviderRequest, 'abortSignal'> & {abortSignal?: AbortSignal}
+): Promise<ProviderResult & {provider: string}> {
+  const timeoutMs = Number(process.env.AI_PROVIDER_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+  let lastError: unknown = new Error('No AI provider is configured or available.');
+
+  for (const provider of getProviderChain()) {
+    const circuit = getCircuit(provider.id);
+    if (circuit.openUntil > Date.now()) {
+      continue;
+    }
+
+    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+      abortSignal?.throwIfAborted();
+      let streamed = false;
+      try {
+        const result = await provider.generate({
+          ...request,
+          onChunk: text => {
+            streamed = true;
+            request.onChunk(text);
+          },
+          abortSignal: abortSignal
+            ? AbortSignal.any([abortSignal, AbortSignal.timeout(timeoutMs)])
+            : AbortSignal.timeout(timeoutMs),
+        });
+        circuit.consecutiveFailures = 0;
+        circuit.openUntil = 0;
+        return {...result, provider: provider.label};
+      } catch (e) {
+        // Not the provider's fault, so no retrying and no counting it against the provider.
+        if (abortSignal?.aborted) {
+          throw e;
+        }
+        console.error(`${provider.label} failed (attempt ${attempt + 1}):`, e);
+        lastError = e;
+        // A blocked answer would be blocked elsewhere too, and a half-streamed one can't be restarted.
+        if (e instanceof GenerationBlockedError || e instanceof ProviderBlockedError || streamed) {
+          throw e;
+        }
+        // Anything else, such as a request the provider rejects, says nothing about whether it's up, so it
+        // moves on to the next provider without counting against this one for everybody else.
+        if (!isTransientError(e)) {
+          break;
+        }
+        if (attempt === MAX_RETRIES) {
+          recordFailure(circuit);
+          break;
+        }
+        await sleep(BASE_BACKOFF_MS * 2 ** attempt + Math.random() * BASE_BACKOFF_MS);
+      }
+    }
+  }
+
+  throw lastError;
+}
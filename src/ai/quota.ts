@@ -0,0 +1,52 @@
+// src/ai/quota.ts
+
+/**
+ * @fileOverview Enforces the per-user limits in src/lib/quota.ts before a flow calls a model. Usage is counted in usage/{uid} with the Admin SDK, so users can read their own counts but not change them.
+ *
+ * - consumeQuota - Counts one call against the user's quota, or throws a QuotaExceededError if they have none left.
+ * - QuotaExceededError - Thrown when a user is over a limit, with a message saying which one.
+ */
+
+import {adminDb} from '@/lib/firebase/admin';
+import {currentUsage, QUOTA_LIMITS, type QuotaKind} from '@/lib/quota';
+import {roleFromClaims} from '@/lib/roles';
+import type {FlowUser} from '@/ai/auth';
+
+export class QuotaExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+const dailyLimitMessages: Record<QuotaKind, (limit: number) => string> = {
+  text: limit => `You've used all ${limit} of today's AI requests. Your limit resets at midnight UTC.`,
+  images: limit => `You've used all ${limit} of today's generated images. Your limit resets at midnight UTC.`,
+};
+
+// Every call is counted, even if the model then fails, so retrying a failing request can't get around the limits.
+export async function consumeQuota(
+  user: FlowUser,
+  kind: QuotaKind,
+  // Work done as part of another request (like the visual aid for an answer) doesn't count towards the per-minute limit.
+  {countRequest = true}: {countRequest?: boolean} = {}
+): Promise<void> {
+  const limits = QUOTA_LIMITS[roleFromClaims(user.claims)];
+  const dailyLimit = kind === 'text' ? limits.textPerDay : limits.imagesPerDay;
+  const db = adminDb();
+  const ref = db.collection('usage').doc(user.uid);
+  await db.runTransaction(async transaction => {
+    const usage = currentUsage((await transaction.get(ref)).data(), Date.now());
+    if (countRequest && usage.requests >= limits.requestsPerMinute) {
+      throw new QuotaExceededError("You're sending requests too quickly. Please wait a minute and try again.");
+    }
+    if (usage[kind] >= dailyLimit) {
+      throw new QuotaExceededError(dailyLimitMessages[kind](dailyLimit));
+    }
+    transaction.set(ref, {
+      ...usage,
+      [kind]: usage[kind] + 1,
+      requests: usage.requests + (countRequest ? 1 : 0),
+    });
+  });
+}
@@ -0,0 +1,64 @@
+// src/ai/route.ts
+
+/**
+ * @fileOverview Serves a streaming flow from a Next.js route. It speaks the same protocol as appRoute from @genkit-ai/next, but appRoute keeps the flow running after the client disconnects; this passes the request's abort signal to the flow, so stopping an answer stops generating it.
+ *
+ * - abortableRoute - Returns a POST handler that streams the flow's chunks and then its result as server-sent events.
+ */
+
+import type {Action, ActionContext} from 'genkit';
+import {getCallableJSON, getHttpStatus, type ContextProvider, type RequestData} from 'genkit/context';
+import {NextRequest, NextResponse} from 'next/server';
+
+const delimiter = '\n\n';
+
+export function abortableRoute(action: Action, {contextProvider}: {contextProvider: ContextProvider<ActionContext>}) {
+  return async (req: NextRequest) => {
+    const {data: input} = await req.json();
+    const headers: Record<string, string> = {};
+    req.headers.forEach((value, key) => {
+      headers[key.toLowerCase()] = value;
+    });
+
+    let context: ActionContext;
+    try {
+      context = await contextProvider({method: req.method as RequestData['method'], headers, input});
+    } catch (e) {
+      return new NextResponse(`error: ${JSON.stringify(getCallableJSON(e))}${delimiter}END`, {status: getHttpStatus(e)});
+    }
+
+    const encoder = new TextEncoder();
+    const {readable, writable} = new TransformStream();
+    const writer = writable.getWriter();
+    // Once the client has gone there's no one to write to, which isn't worth reporting.
+    const send = (text: string) => writer.write(encoder.encode(text)).catch(() => {});
+
+    (async () => {
+      try {
+        const {result} = await action.run(input, {
+          context,
+          abortSignal: req.signal,
+          onChunk: chunk => send(`data: ${JSON.stringify({message: chunk})}${delimiter}`),
+        });
+        await send(`data: ${JSON.stringify({result})}${delimiter}`);
+      } catch (e) {
+        if (!req.signal.aborted) {
+          console.error('Error streaming action:', e);
+        }
+        await send(`error: ${JSON.stringify(getCallableJSON(e))}${delimiter}`);
+      } finally {
+        await send('END');
+        await writer.close().catch(() => {});
+      }
+    })();
+
+    return new NextResponse(readable, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      },
+    });
+  };
+}
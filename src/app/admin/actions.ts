@@ -0,0 +1,40 @@
+// src/app/admin/actions.ts
+'use server';
+
+import { FirebaseAuthError } from 'firebase-admin/auth';
+import { setUserRole, verifyIdToken } from '@/lib/firebase/admin';
+import { isRole, roleFromClaims, type Role } from '@/lib/roles';
+
+export type ChangeRoleResult = { status: 'ok' } | { status: 'error'; message: string };
+
+// Only admins can change roles. The caller's ID token is checked here rather than trusting the page,
+// which anyone can call the action from.
+export async function changeUserRole(idToken: string, email: string, role: Role): Promise<ChangeRoleResult> {
+  let caller;
+  try {
+    caller = await verifyIdToken(idToken);
+  } catch {
+    return { status: 'error', message: 'Your session has expired. Please log in again.' };
+  }
+  if (roleFromClaims(caller) !== 'admin') {
+    return { status: 'error', message: 'Only admins can change roles.' };
+  }
+  if (!isRole(role)) {
+    return { status: 'error', message: 'That isn\'t a role.' };
+  }
+  // Otherwise the last admin could lock everyone out.
+  if (caller.email?.toLowerCase() === email.trim().toLowerCase()) {
+    return { status: 'error', message: 'You can\'t change your own role. Ask another admin.' };
+  }
+
+  try {
+    await setUserRole(email.trim(), role);
+    return { status: 'ok' };
+  } catch (e) {
+    if (e instanceof FirebaseAuthError && e.code === 'auth/user-not-found') {
+      return { status: 'error', message: `There's no account for ${email}.` };
+    }
+    console.error('Changing a role failed:', e);
+    return { status: 'error', message: 'The role couldn\'t be changed. Please try again.' };
+  }
+}
@@ -0,0 +1,13 @@
+import { PrivateRoute } from "@/components/PrivateRoute";
+import { RoleManager } from "@/components/admin/RoleManager";
+
+export default function AdminPage() {
+  return (
+    <PrivateRoute requiredRole="admin">
+      <div className="container mx-auto max-w-2xl space-y-6 py-6">
+        <h1 className="text-2xl font-bold">Admin</h1>
+        <RoleManager />
+      </div>
+    </PrivateRoute>
+  );
+}
@@ -0,0 +1,8 @@
+// src/app/api/answer/route.ts
+import { answerAcademicQuestionFlow } from '@/ai/flows/answer-academic-question';
+import { firebaseAuth } from '@/ai/auth';
+import { abortableRoute } from '@/ai/route';
+
+// Requests without a valid Firebase ID token get a 401 before the flow runs, and the flow stops
+// generating if the client disconnects (the chat's Stop button).
+export const POST = abortableRoute(answerAcademicQuestionFlow, { contextProvider: firebaseAuth });
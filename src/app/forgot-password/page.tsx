@@ -0,0 +1,123 @@
+// src/app/forgot-password/page.tsx
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { FirebaseError } from "firebase/app";
+import { sendPasswordResetEmail } from "firebase/auth";
+import { auth } from "@/lib/firebase/client";
+import { authErrorMessage } from "@/lib/firebase/auth-errors";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+
+const resetSchema = z.object({
+  email: z.string().email({ message: "Please enter a valid email address." }),
+});
+
+type ResetFormValues = z.infer<typeof resetSchema>;
+
+export default function ForgotPasswordPage() {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const form = useForm<ResetFormValues>({
+    resolver: zodResolver(resetSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  async function onSubmit(data: ResetFormValues) {
+    setIsLoading(true);
+    try {
+      await sendPasswordResetEmail(auth, data.email);
+      setSentTo(data.email);
+    } catch (error) {
+      // Say the same thing whether or not there's an account, so the form can't be used to find out.
+      if (error instanceof FirebaseError && error.code === "auth/user-not-found") {
+        setSentTo(data.email);
+        return;
+      }
+      console.error(error);
+      toast({
+        variant: "destructive",
+        title: "Reset Failed",
+        description: authErrorMessage(error),
+      });
+    } finally {
+        setIsLoading(false);
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-[calc(100vh-57px)] bg-background">
+      <Card className="mx-auto max-w-sm w-full">
+        <CardHeader>
+          <CardTitle className="text-2xl">Reset your password</CardTitle>
+          <CardDescription>
+            {sentTo
+              ? `If there's an account for ${sentTo}, we've sent it a link to choose a new password.`
+              : "Enter your email and we'll send you a link to choose a new password"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sentTo ? (
+            <Button variant="outline" className="w-full" onClick={() => setSentTo(null)}>
+              Use a different email
+            </Button>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input placeholder="name@example.com" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Send reset link
+                </Button>
+              </form>
+            </Form>
+          )}
+          <div className="mt-4 text-center text-sm">
+            Remembered it?{" "}
+            <Link href="/login" className="underline">
+              Login
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
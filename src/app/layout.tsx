@@ -1,4 +1,5 @@
 import type {Metadata} from 'next';
+import 'katex/dist/katex.min.css';
 import './globals.css';
 import { cn } from '@/lib/utils';
 import { Toaster } from "@/components/ui/toaster"
@@ -1,14 +1,24 @@
 // src/app/login/page.tsx
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
-import { signInWithEmailAndPassword } from "firebase/auth";
+import { signInWithEmailAndPassword, User } from "firebase/auth";
 import { auth } from "@/lib/firebase/client";
+import { authErrorMessage } from "@/lib/firebase/auth-errors";
+import {
+  clearPendingLink,
+  completePendingLink,
+  loadPendingLink,
+  providerLabel,
+  savePendingLink,
+  PendingLink,
+} from "@/lib/firebase/oauth";
+import { OAuthButtons } from "@/components/auth/OAuthButtons";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -27,8 +37,9 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2 } from "lucide-react";
+import { Link2, Loader2 } from "lucide-react";
 
 const loginSchema = z.object({
   email: z.string().email({ message: "Please enter a valid email address." }),
@@ -43,6 +54,8 @@ export default function LoginPage() {
   const router = useRouter();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
+  // A Google or GitHub sign-in to link once the user logs in to the account that already has its email.
+  const [pendingLink, setPendingLink] = useState<PendingLink | null>(null);
 
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -52,21 +65,62 @@ export default function LoginPage() {
     },
   });
 
-  async function onSubmit(data: LoginFormValues) {
-    setIsLoading(true);
-    try {
-      await signInWithEmailAndPassword(auth, data.email, data.password);
+  // Left by the sign-up page, or an earlier attempt here.
+  useEffect(() => {
+    const pending = loadPendingLink();
+    if (pending) {
+      setPendingLink(pending);
+      form.setValue("email", pending.email);
+    }
+  }, [form]);
+
+  const handleAccountExists = (pending: PendingLink) => {
+    savePendingLink(pending);
+    setPendingLink(pending);
+    form.setValue("email", pending.email);
+  };
+
+  const cancelLink = () => {
+    clearPendingLink();
+    setPendingLink(null);
+  };
+
+  async function finishLogin(user: User) {
+    if (pendingLink) {
+      const provider = providerLabel(pendingLink.providerId);
+      try {
+        const linked = await completePendingLink(user, pendingLink);
+        toast(linked
+          ? { title: "Accounts linked", description: `You can now log in with ${provider} too.` }
+          : { title: `${provider} wasn't linked`, description: `You logged in to a different account from ${pendingLink.email}.` });
+      } catch (error) {
+        console.error(error);
+        toast({
+          variant: "destructive",
+          title: `Couldn't link ${provider}`,
+          description: authErrorMessage(error),
+        });
+      }
+    } else {
       toast({
         title: "Success",
         description: "Login Successful",
       });
-      router.push("/");
-    } catch (error: any) {
+    }
+    router.push("/");
+  }
+
+  async function onSubmit(data: LoginFormValues) {
+    setIsLoading(true);
+    try {
+      const { user } = await signInWithEmailAndPassword(auth, data.email, data.password);
+      await finishLogin(user);
+    } catch (error) {
       console.error(error);
       toast({
         variant: "destructive",
         title: "Login Failed",
-        description: error.message || "An unexpected error occurred. Please try again.",
+        description: authErrorMessage(error),
       });
     } finally {
         setIsLoading(false);
@@ -82,7 +136,20 @@ export default function LoginPage() {
             Enter your email below to login to your account
           </CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          {pendingLink && (
+            <Alert>
+              <Link2 className="h-4 w-4" />
+              <AlertTitle>You already have an account</AlertTitle>
+              <AlertDescription>
+                {pendingLink.email} already signs in another way. Log in the way you usually do and{" "}
+                {providerLabel(pendingLink.providerId)} will be linked to it.{" "}
+                <button type="button" onClick={cancelLink} className="underline">
+                  Don&apos;t link
+                </button>
+              </AlertDescription>
+            </Alert>
+          )}
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
               <FormField
@@ -103,7 +170,12 @@ export default function LoginPage() {
                 name="password"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Password</FormLabel>
+                    <div className="flex items-center justify-between">
+                      <FormLabel>Password</FormLabel>
+                      <Link href="/forgot-password" className="text-sm underline">
+                        Forgot password?
+                      </Link>
+                    </div>
                     <FormControl>
                       <Input type="password" placeholder="••••••••" {...field} />
                     </FormControl>
@@ -117,7 +189,12 @@ export default function LoginPage() {
               </Button>
             </form>
           </Form>
-          <div className="mt-4 text-center text-sm">
+          <OAuthButtons
+            disabled={isLoading}
+            onSignedIn={({ user }) => finishLogin(user)}
+            onAccountExists={handleAccountExists}
+          />
+          <div className="text-center text-sm">
             Don&apos;t have an account?{" "}
             <Link href="/signup" className="underline">
               Sign up
@@ -0,0 +1,51 @@
+// src/app/settings/actions.ts
+'use server';
+
+import { checkAccountAccess, deleteUserAndUsage, verifyIdToken } from '@/lib/firebase/admin';
+
+export type DeleteAccountResult = { status: 'ok' } | { status: 'error'; message: string };
+
+// Like Firebase's own deleteUser, this wants a recent sign-in, so a stolen token isn't enough.
+const RECENT_SIGN_IN_SECONDS = 5 * 60;
+
+// The caller's uid, or why they can't delete their account.
+async function recentCaller(idToken: string): Promise<string | DeleteAccountResult> {
+  let caller;
+  try {
+    caller = await verifyIdToken(idToken);
+  } catch {
+    return { status: 'error', message: 'Your session has expired. Please log in again.' };
+  }
+  if (Date.now() / 1000 - caller.auth_time > RECENT_SIGN_IN_SECONDS) {
+    return { status: 'error', message: 'Please sign in again to delete your account.' };
+  }
+  return caller.uid;
+}
+
+// Asked before the browser deletes anything, so that a server that can't delete the account (no
+// credentials, or a sign-in that's too old) stops it while the account still has all its data.
+export async function prepareAccountDeletion(idToken: string): Promise<DeleteAccountResult> {
+  const uid = await recentCaller(idToken);
+  if (typeof uid !== 'string') return uid;
+  try {
+    await checkAccountAccess(uid);
+    return { status: 'ok' };
+  } catch (e) {
+    console.error('Checking an account before deleting it failed:', e);
+    return { status: 'error', message: 'Your account can\'t be deleted right now. Please try again later.' };
+  }
+}
+
+// The account is deleted here rather than in the browser so that the usage counts, which users
+// can't write to, go with it.
+export async function deleteOwnAccount(idToken: string): Promise<DeleteAccountResult> {
+  const uid = await recentCaller(idToken);
+  if (typeof uid !== 'string') return uid;
+  try {
+    await deleteUserAndUsage(uid);
+    return { status: 'ok' };
+  } catch (e) {
+    console.error('Deleting an account failed:', e);
+    return { status: 'error', message: 'Your account couldn\'t be deleted. Please try again.' };
+  }
+}
@@ -0,0 +1,19 @@
+import { PrivateRoute } from "@/components/PrivateRoute";
+import { ProfileSettings } from "@/components/settings/ProfileSettings";
+import { SignInSettings } from "@/components/settings/SignInSettings";
+import { ConnectedAccounts } from "@/components/settings/ConnectedAccounts";
+import { DeleteAccount } from "@/components/settings/DeleteAccount";
+
+export default function SettingsPage() {
+  return (
+    <PrivateRoute>
+      <div className="container mx-auto max-w-2xl space-y-6 py-6">
+        <h1 className="text-2xl font-bold">Settings</h1>
+        <ProfileSettings />
+        <SignInSettings />
+        <ConnectedAccounts />
+        <DeleteAccount />
+      </div>
+    </PrivateRoute>
+  );
+}
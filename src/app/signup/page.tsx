@@ -9,6 +9,10 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import { createUserWithEmailAndPassword, updateProfile } from "firebase/auth";
 import { auth } from "@/lib/firebase/client";
+import { authErrorMessage } from "@/lib/firebase/auth-errors";
+import { sendVerificationEmail } from "@/lib/firebase/account";
+import { savePendingLink, PendingLink } from "@/lib/firebase/oauth";
+import { OAuthButtons } from "@/components/auth/OAuthButtons";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -56,28 +60,58 @@ export default function SignupPage() {
 
   async function onSubmit(data: SignupFormValues) {
     setIsLoading(true);
+    let userCredential;
     try {
-      const userCredential = await createUserWithEmailAndPassword(auth, data.email, data.password);
+      userCredential = await createUserWithEmailAndPassword(auth, data.email, data.password);
       await updateProfile(userCredential.user, {
         displayName: data.name,
       });
+    } catch (error) {
+      console.error(error);
       toast({
-        title: "Success",
-        description: "Authentication Created Successfully",
+        variant: "destructive",
+        title: "Sign Up Failed",
+        description: authErrorMessage(error),
       });
-      router.push("/login");
-    } catch (error: any) {
+      setIsLoading(false);
+      return;
+    }
+
+    // The account exists by now, so a failure here is only about the email, which can be sent again.
+    try {
+      await sendVerificationEmail(userCredential.user);
+      toast({
+        title: "Account created",
+        description: `Check ${data.email} for a link to verify your email.`,
+      });
+    } catch (error) {
       console.error(error);
       toast({
         variant: "destructive",
-        title: "Sign Up Failed",
-        description: error.message || "An unexpected error occurred. Please try again.",
+        title: "Verification email not sent",
+        description: `Your account was created, but the email to ${data.email} couldn't be sent. Use "Send the link again" on the next page.`,
       });
     } finally {
         setIsLoading(false);
     }
+    router.push("/");
   }
 
+  // Signing up with Google or GitHub needs no separate login.
+  const handleOAuthSignUp = () => {
+    toast({
+      title: "Success",
+      description: "Login Successful",
+    });
+    router.push("/");
+  };
+
+  // Their email already has an account: log in to it, and the provider is linked there.
+  const handleAccountExists = (pending: PendingLink) => {
+    savePendingLink(pending);
+    router.push("/login");
+  };
+
   return (
     <div className="flex items-center justify-center min-h-[calc(100vh-57px)] bg-background">
       <Card className="mx-auto max-w-sm w-full">
@@ -87,7 +121,7 @@ export default function SignupPage() {
             Enter your information to create an account
           </CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
               <FormField
@@ -135,7 +169,8 @@ export default function SignupPage() {
               </Button>
             </form>
           </Form>
-          <div className="mt-4 text-center text-sm">
+          <OAuthButtons disabled={isLoading} onSignedIn={handleOAuthSignUp} onAccountExists={handleAccountExists} />
+          <div className="text-center text-sm">
             Already have an account?{" "}
             <Link href="/login" className="underline">
               Login
@@ -0,0 +1,13 @@
+import { Whiteboard } from "@/components/whiteboard/Whiteboard";
+import { PrivateRoute } from "@/components/PrivateRoute";
+
+export default async function WhiteboardRoomPage({ params }: { params: Promise<{ roomId: string }> }) {
+  const { roomId } = await params;
+  return (
+    <PrivateRoute>
+      <div className="container mx-auto py-6">
+        <Whiteboard roomId={roomId} />
+      </div>
+    </PrivateRoute>
+  );
+}
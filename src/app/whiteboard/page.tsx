@@ -1,11 +1,11 @@
-import { Whiteboard } from "@/components/whiteboard/Whiteboard";
+import { WhiteboardList } from "@/components/whiteboard/WhiteboardList";
 import { PrivateRoute } from "@/components/PrivateRoute";
 
 export default function WhiteboardPage() {
   return (
     <PrivateRoute>
       <div className="container mx-auto py-6">
-        <Whiteboard />
+        <WhiteboardList />
       </div>
     </PrivateRoute>
   );
@@ -1,7 +1,7 @@
 "use client";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { Bot, User, Menu, LogOut, Loader2 } from "lucide-react";
+import { Bot, User, Menu, LogOut, Loader2, Settings } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Sheet,
@@ -20,17 +20,32 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/lib/firebase/auth";
+import { hasRole, Role, ROLE_LABELS } from "@/lib/roles";
 
-const navLinks = [
+interface NavLink {
+  href: string;
+  label: string;
+  // Only shown to this role and above; the page itself checks too (PrivateRoute's requiredRole).
+  role?: Role;
+}
+
+const navLinks: NavLink[] = [
   { href: "/", label: "Chat" },
   { href: "/whiteboard", label: "Whiteboard" },
+  { href: "/admin", label: "Admin", role: "admin" },
 ];
 
+// Sections like /whiteboard have sub-pages (e.g. a room) that should keep the link highlighted.
+const isActiveLink = (pathname: string, href: string) =>
+  pathname === href || (href !== "/" && pathname.startsWith(`${href}/`));
+
 export function Header() {
   const pathname = usePathname();
-  const { user, loading, signOut } = useAuth();
+  const { user, role, loading, signOut } = useAuth();
+  const visibleLinks = navLinks.filter((link) => !link.role || (role && hasRole(role, link.role)));
 
   const UserMenu = () => {
     if (loading) {
@@ -57,9 +72,20 @@ export function Header() {
                 <p className="text-xs leading-none text-muted-foreground">
                   {user.email}
                 </p>
+                {role && role !== "student" && (
+                  <Badge variant="secondary" className="w-fit">
+                    {ROLE_LABELS[role]}
+                  </Badge>
+                )}
               </div>
             </DropdownMenuLabel>
             <DropdownMenuSeparator />
+            <DropdownMenuItem asChild>
+              <Link href="/settings">
+                <Settings className="mr-2 h-4 w-4" />
+                <span>Settings</span>
+              </Link>
+            </DropdownMenuItem>
             <DropdownMenuItem onClick={signOut}>
               <LogOut className="mr-2 h-4 w-4" />
               <span>Log out</span>
@@ -90,13 +116,13 @@ export function Header() {
             <span className="font-bold">EduMentor Lite</span>
           </Link>
           <nav className="flex items-center space-x-6 text-sm font-medium">
-            {navLinks.map((link) => (
+            {visibleLinks.map((link) => (
               <Link
                 key={link.href}
                 href={link.href}
                 className={cn(
                   "transition-colors hover:text-foreground/80",
-                  pathname === link.href
+                  isActiveLink(pathname, link.href)
                     ? "text-foreground"
                     : "text-foreground/60"
                 )}
@@ -124,13 +150,13 @@ export function Header() {
                 <span className="font-bold">EduMentor Lite</span>
               </Link>
               <nav className="flex flex-col space-y-4">
-                {navLinks.map((link) => (
+                {visibleLinks.map((link) => (
                   <SheetClose asChild key={link.href}>
                     <Link
                       href={link.href}
                       className={cn(
                         "transition-colors hover:text-primary",
-                        pathname === link.href
+                        isActiveLink(pathname, link.href)
                           ? "font-semibold text-primary"
                           : "text-muted-foreground"
                       )}
@@ -4,14 +4,22 @@
 import { useAuth } from "@/lib/firebase/auth";
 import { useRouter } from "next/navigation";
 import { useEffect, ReactNode } from "react";
-import { Loader2 } from "lucide-react";
+import Link from "next/link";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { needsEmailVerification } from "@/lib/firebase/account";
+import { hasRole, Role, ROLE_LABELS } from "@/lib/roles";
+import { VerifyEmail } from "@/components/auth/VerifyEmail";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 
 interface PrivateRouteProps {
   children: ReactNode;
+  // The least role that can see the page (see hasRole); anyone signed in when left out.
+  requiredRole?: Role;
 }
 
-export function PrivateRoute({ children }: PrivateRouteProps) {
-  const { user, loading } = useAuth();
+export function PrivateRoute({ children, requiredRole }: PrivateRouteProps) {
+  const { user, role, loading } = useAuth();
   const router = useRouter();
 
   useEffect(() => {
@@ -28,9 +36,42 @@ export function PrivateRoute({ children }: PrivateRouteProps) {
     );
   }
 
+  if (user && needsEmailVerification(user)) {
+    return <VerifyEmail />;
+  }
+
+  if (user && requiredRole && !hasRole(role ?? "student", requiredRole)) {
+    return <AccessDenied requiredRole={requiredRole} />;
+  }
+
   if (user) {
     return <>{children}</>;
   }
 
   return null;
 }
+
+// The page is still only hidden on the client, so whatever it calls has to check the role on the server too.
+function AccessDenied({ requiredRole }: { requiredRole: Role }) {
+  return (
+    <div className="flex items-center justify-center min-h-[calc(100vh-57px)] bg-background">
+      <Card className="mx-auto max-w-sm w-full">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-2xl">
+            <ShieldAlert className="h-6 w-6 text-primary" />
+            No access
+          </CardTitle>
+          <CardDescription>
+            This page is for {ROLE_LABELS[requiredRole].toLowerCase()}s{requiredRole === "admin" ? "" : " and admins"}. If
+            you should have access, ask an admin to change your role, then log in again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild className="w-full">
+            <Link href="/">Back to the chat</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
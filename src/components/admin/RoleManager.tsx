@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Loader2 } from "lucide-react";
+import { changeUserRole } from "@/app/admin/actions";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/firebase/auth";
+import { QUOTA_LIMITS } from "@/lib/quota";
+import { ROLES, ROLE_LABELS } from "@/lib/roles";
+
+const roleSchema = z.object({
+  email: z.string().email({ message: "Please enter a valid email address." }),
+  role: z.enum(ROLES),
+});
+
+type RoleFormValues = z.infer<typeof roleSchema>;
+
+export function RoleManager() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const form = useForm<RoleFormValues>({
+    resolver: zodResolver(roleSchema),
+    defaultValues: { email: "", role: "teacher" },
+  });
+
+  async function onSubmit(data: RoleFormValues) {
+    if (!user) return;
+    setIsSaving(true);
+    try {
+      const result = await changeUserRole(await user.getIdToken(), data.email, data.role);
+      if (result.status === "error") {
+        toast({ variant: "destructive", title: "Couldn't change the role", description: result.message });
+        return;
+      }
+      form.reset({ email: "", role: data.role });
+      toast({
+        title: "Role changed",
+        description: `${data.email} is now a ${ROLE_LABELS[data.role].toLowerCase()}. They'll see it the next time they log in.`,
+      });
+    } catch (error) {
+      console.error(error);
+      toast({ variant: "destructive", title: "Couldn't change the role", description: "Please try again." });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>User roles</CardTitle>
+        <CardDescription>
+          Everyone starts as a student. Teachers and admins get higher AI limits, and admins can change roles here.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input placeholder="name@example.com" autoComplete="off" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="role"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Role</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {ROLES.map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {ROLE_LABELS[role]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    {QUOTA_LIMITS[field.value].textPerDay} AI requests and {QUOTA_LIMITS[field.value].imagesPerDay} images a day.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Change role
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
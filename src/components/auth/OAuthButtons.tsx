@@ -0,0 +1,90 @@
+"use client";
+
+import { useState, ReactNode } from "react";
+import type { UserCredential } from "firebase/auth";
+import { Github, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { authErrorMessage, isCancelledSignIn } from "@/lib/firebase/auth-errors";
+import {
+  signInWithProvider,
+  AccountExistsError,
+  OAuthProviderId,
+  PendingLink,
+  OAUTH_PROVIDERS,
+} from "@/lib/firebase/oauth";
+
+// Lucide has no Google logo.
+const GoogleIcon = () => (
+  <svg viewBox="0 0 24 24" className="h-4 w-4" aria-hidden="true">
+    <path fill="#4285F4" d="M23.5 12.3c0-.8-.1-1.6-.2-2.3H12v4.5h6.5a5.5 5.5 0 0 1-2.4 3.6v3h3.9c2.2-2.1 3.5-5.1 3.5-8.8z" />
+    <path fill="#34A853" d="M12 24c3.2 0 6-1.1 8-2.9l-3.9-3c-1.1.7-2.5 1.2-4.1 1.2-3.1 0-5.8-2.1-6.7-5H1.3v3.1A12 12 0 0 0 12 24z" />
+    <path fill="#FBBC05" d="M5.3 14.3a7.2 7.2 0 0 1 0-4.6V6.6h-4a12 12 0 0 0 0 10.8l4-3.1z" />
+    <path fill="#EA4335" d="M12 4.8c1.8 0 3.3.6 4.6 1.8l3.4-3.4A12 12 0 0 0 1.3 6.6l4 3.1c.9-2.8 3.6-4.9 6.7-4.9z" />
+  </svg>
+);
+
+const icons: Record<OAuthProviderId, ReactNode> = {
+  "google.com": <GoogleIcon />,
+  "github.com": <Github className="h-4 w-4" />,
+};
+
+interface OAuthButtonsProps {
+  disabled?: boolean;
+  onSignedIn: (credential: UserCredential) => void | Promise<void>;
+  // The provider's email already has an account that signs in another way.
+  onAccountExists: (pending: PendingLink) => void;
+}
+
+export function OAuthButtons({ disabled, onSignedIn, onAccountExists }: OAuthButtonsProps) {
+  const { toast } = useToast();
+  const [signingInWith, setSigningInWith] = useState<OAuthProviderId | null>(null);
+
+  const handleSignIn = async (id: OAuthProviderId) => {
+    setSigningInWith(id);
+    try {
+      await onSignedIn(await signInWithProvider(id));
+    } catch (error) {
+      if (error instanceof AccountExistsError) {
+        onAccountExists(error.pending);
+        return;
+      }
+      if (isCancelledSignIn(error)) return;
+      console.error(error);
+      toast({
+        variant: "destructive",
+        title: "Login Failed",
+        description: authErrorMessage(error),
+      });
+    } finally {
+      setSigningInWith(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="relative">
+        <div className="absolute inset-0 flex items-center">
+          <span className="w-full border-t" />
+        </div>
+        <div className="relative flex justify-center text-xs uppercase">
+          <span className="bg-card px-2 text-muted-foreground">Or continue with</span>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {OAUTH_PROVIDERS.map(({ id, label }) => (
+          <Button
+            key={id}
+            type="button"
+            variant="outline"
+            disabled={disabled || signingInWith !== null}
+            onClick={() => handleSignIn(id)}
+          >
+            {signingInWith === id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <span className="mr-2">{icons[id]}</span>}
+            {label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, MailCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/lib/firebase/auth";
+import { authErrorMessage } from "@/lib/firebase/auth-errors";
+import { reloadUser, sendVerificationEmail } from "@/lib/firebase/account";
+import { useToast } from "@/hooks/use-toast";
+
+// Shown instead of the app until a new email and password account follows the link it was sent.
+export function VerifyEmail() {
+  const { user, signOut, refreshUser } = useAuth();
+  const { toast } = useToast();
+  const [isChecking, setIsChecking] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+
+  if (!user) return null;
+
+  const checkVerified = async () => {
+    setIsChecking(true);
+    try {
+      await reloadUser(user);
+      if (user.emailVerified) {
+        refreshUser();
+      } else {
+        toast({
+          title: "Not verified yet",
+          description: "Follow the link in the email we sent, then try again.",
+        });
+      }
+    } catch (error) {
+      console.error(error);
+      toast({ variant: "destructive", title: "Couldn't check", description: authErrorMessage(error) });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const resend = async () => {
+    setIsSending(true);
+    try {
+      await sendVerificationEmail(user);
+      toast({ title: "Email sent", description: `We sent a new link to ${user.email}.` });
+    } catch (error) {
+      console.error(error);
+      toast({ variant: "destructive", title: "Couldn't send the email", description: authErrorMessage(error) });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-[calc(100vh-57px)] bg-background">
+      <Card className="mx-auto max-w-sm w-full">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-2xl">
+            <MailCheck className="h-6 w-6 text-primary" />
+            Verify your email
+          </CardTitle>
+          <CardDescription>
+            We sent a link to <span className="font-medium text-foreground">{user.email}</span>. Follow it to
+            finish setting up your account, then come back here.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Button className="w-full" onClick={checkVerified} disabled={isChecking}>
+            {isChecking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            I&apos;ve verified my email
+          </Button>
+          <Button variant="outline" className="w-full" onClick={resend} disabled={isSending}>
+            {isSending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Send the link again
+          </Button>
+          <Button variant="ghost" className="w-full" onClick={signOut}>
+            Log out
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
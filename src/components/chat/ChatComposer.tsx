@@ -0,0 +1,190 @@
+"use client";
+import { useRef, useState, ClipboardEvent, Dispatch, DragEvent, FormEvent, SetStateAction } from 'react';
+import Image from 'next/image';
+import { Send, Square, Paperclip, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { MAX_QUESTION_IMAGE_BYTES, MAX_QUESTION_IMAGES, resizeImageToDataUri } from '@/lib/images';
+import { quotaLeftLabel } from '@/lib/quota';
+import { cn } from '@/lib/utils';
+
+export interface ImageAttachment {
+  // Sent to the model.
+  dataUri: string;
+  // Saved with the message in the chat history.
+  thumbnail: string;
+}
+
+const MAX_ATTACHMENTS = MAX_QUESTION_IMAGES;
+const MAX_FILE_BYTES = MAX_QUESTION_IMAGE_BYTES;
+const MODEL_IMAGE_DIMENSION = 1600;
+const THUMBNAIL_DIMENSION = 320;
+
+interface ChatComposerProps {
+  input: string;
+  onInputChange: (value: string) => void;
+  attachments: ImageAttachment[];
+  onAttachmentsChange: Dispatch<SetStateAction<ImageAttachment[]>>;
+  isLoading: boolean;
+  onSubmit: (e: FormEvent) => void;
+  onStop: () => void;
+  // How many more questions the student can ask today, once it's known.
+  requestsLeft?: number;
+}
+
+export function ChatComposer({
+  input,
+  onInputChange,
+  attachments,
+  onAttachmentsChange,
+  isLoading,
+  onSubmit,
+  onStop,
+  requestsLeft,
+}: ChatComposerProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const addFiles = async (files: File[]) => {
+    const images = files.filter(file => file.type.startsWith('image/'));
+    if (!images.length) return;
+
+    const room = MAX_ATTACHMENTS - attachments.length;
+    if (images.length > room) {
+      toast({
+        variant: "destructive",
+        title: "Too many images",
+        description: `You can attach up to ${MAX_ATTACHMENTS} images per question.`,
+      });
+    }
+
+    const added: ImageAttachment[] = [];
+    for (const image of images.slice(0, Math.max(room, 0))) {
+      if (image.size > MAX_FILE_BYTES) {
+        toast({
+          variant: "destructive",
+          title: "Image too large",
+          description: `${image.name} is over 10 MB.`,
+        });
+        continue;
+      }
+      try {
+        added.push({
+          dataUri: await resizeImageToDataUri(image, MODEL_IMAGE_DIMENSION),
+          thumbnail: await resizeImageToDataUri(image, THUMBNAIL_DIMENSION, 0.7),
+        });
+      } catch (error) {
+        console.error(error);
+        toast({
+          variant: "destructive",
+          title: "Couldn't read image",
+          description: `${image.name} could not be attached.`,
+        });
+      }
+    }
+    if (added.length) {
+      // Resizing is async, so apply on top of whatever was attached in the meantime.
+      onAttachmentsChange(current => [...current, ...added].slice(0, MAX_ATTACHMENTS));
+    }
+  };
+
+  const handlePaste = (e: ClipboardEvent<HTMLInputElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.some(file => file.type.startsWith('image/'))) {
+      e.preventDefault();
+      addFiles(files);
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!isLoading) addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const removeAttachment = (index: number) => {
+    onAttachmentsChange(current => current.filter((_, i) => i !== index));
+  };
+
+  const canSend = input.trim().length > 0 || attachments.length > 0;
+
+  return (
+    <div
+      className={cn("p-4 md:p-6 bg-background/95 border-t", isDragging && "bg-primary/5 ring-2 ring-inset ring-primary")}
+      onDragOver={e => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
+      <div className="max-w-3xl mx-auto">
+          {attachments.length > 0 && (
+            <div className="mb-3 flex flex-wrap gap-2">
+              {attachments.map((attachment, index) => (
+                <div key={index} className="relative h-16 w-16 overflow-hidden rounded-md border">
+                  <Image src={attachment.thumbnail} alt={`Attachment ${index + 1}`} fill className="object-cover" />
+                  <button
+                    type="button"
+                    onClick={() => removeAttachment(index)}
+                    className="absolute right-0.5 top-0.5 rounded-full bg-background/80 p-0.5 hover:bg-background"
+                    aria-label={`Remove attachment ${index + 1}`}
+                  >
+                    <X size={12} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <form onSubmit={onSubmit} className="flex items-center gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              onChange={e => {
+                addFiles(Array.from(e.target.files ?? []));
+                e.target.value = '';
+              }}
+            />
+            <Button
+              type="button"
+              size="lg"
+              variant="ghost"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isLoading || attachments.length >= MAX_ATTACHMENTS}
+              aria-label="Attach image"
+            >
+              <Paperclip size={20} />
+            </Button>
+            <Input
+              value={input}
+              onChange={e => onInputChange(e.target.value)}
+              onPaste={handlePaste}
+              placeholder="Type your doubt or attach a photo..."
+              className="flex-1 h-12 text-base"
+              disabled={isLoading}
+              aria-label="Chat input"
+            />
+            {isLoading ? (
+              <Button type="button" size="lg" variant="outline" onClick={onStop} aria-label="Stop generating">
+                <Square size={20} />
+              </Button>
+            ) : (
+              <Button type="submit" size="lg" disabled={!canSend} aria-label="Send message">
+                <Send size={20} />
+              </Button>
+            )}
+          </form>
+          {requestsLeft !== undefined && (
+            <p className={cn('mt-2 text-center text-xs', requestsLeft === 0 ? 'text-destructive' : 'text-muted-foreground')}>
+              {quotaLeftLabel('text', requestsLeft)}
+            </p>
+          )}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,22 @@
 "use client";
 import { useState, useRef, useEffect, FormEvent } from 'react';
+import { useChatHistory } from '@/hooks/use-chat-history';
+import { useConversations } from '@/hooks/use-conversations';
 import { useLocalStorage } from '@/hooks/use-local-storage';
-import { answerAcademicQuestion, AnswerAcademicQuestionOutput } from '@/ai/flows/answer-academic-question';
-import { ChatMessage, Message } from '@/components/chat/ChatMessage';
-import { Input } from '@/components/ui/input';
-import { Button } from '@/components/ui/button';
+import { useQuota } from '@/hooks/use-quota';
+import { titleFromQuestion } from '@/lib/firebase/chat-history';
+import { requestError, streamFlow, FlowError } from '@/lib/flow-client';
+import type { answerAcademicQuestionFlow } from '@/ai/flows/answer-academic-question';
+import type { AnswerError } from '@/ai/errors';
+import type { ConversationSummary, ConversationTurn } from '@/ai/history';
+import { ChatMessage, ChatErrorMessage, Message } from '@/components/chat/ChatMessage';
+import { ChatComposer, ImageAttachment } from '@/components/chat/ChatComposer';
+import { ConversationSidebar } from '@/components/chat/ConversationSidebar';
+import { SidebarInset, SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
 import { Card, CardContent } from '@/components/ui/card';
-import { Send, Bot, BrainCircuit } from 'lucide-react';
-import { useToast } from '@/hooks/use-toast';
+import { Bot, BrainCircuit } from 'lucide-react';
 import { motion } from 'framer-motion';
-import { useAuth } from '@/lib/firebase/auth';
+import { authHeaders, useAuth } from '@/lib/firebase/auth';
 
 const TypingIndicator = () => (
     <motion.div
@@ -35,18 +42,51 @@ const WelcomeMessage = () => (
     <div className="flex flex-col items-center justify-center h-full text-center p-4">
         <BrainCircuit size={64} className="text-primary mb-4" />
         <h1 className="text-3xl font-bold font-headline">Welcome to EduMentor Lite</h1>
-        <p className="text-muted-foreground mt-2 max-w-md">Ask me anything about coding, math, science, or any other subject!</p>
+        <p className="text-muted-foreground mt-2 max-w-md">Ask me anything about coding, math, science, or any other subject! You can also snap a photo of a textbook problem or your handwritten work.</p>
     </div>
 );
 
+// Used as the question when a photo is sent without any text.
+const PHOTO_ONLY_QUESTION = 'Please help me with the question in this photo.';
+
+interface AnswerRequest {
+  conversationId: string;
+  question: string;
+  history: ConversationTurn[];
+  summary?: ConversationSummary;
+  images?: string[];
+}
+
+interface FailedRequest extends AnswerRequest {
+  error: AnswerError;
+}
+
 export function ChatInterface() {
-  const { user } = useAuth();
-  const chatHistoryKey = user ? `chat-history-${user.uid}` : 'chat-history';
-  const [messages, setMessages] = useLocalStorage<Message[]>(chatHistoryKey, []);
+  const { user, role } = useAuth();
+  const {
+    conversations,
+    loading: conversationsLoading,
+    create: createConversation,
+    rename: renameConversation,
+    setPinned: setConversationPinned,
+    saveSummary: saveConversationSummary,
+    remove: removeConversation,
+  } = useConversations(user?.uid);
+  const [storedActiveId, setStoredActiveId] = useLocalStorage<string | null>(`active-conversation-${user?.uid}`, null);
+  // Fall back to a fresh chat if the remembered one was deleted, e.g. on another device.
+  const activeId = conversationsLoading || conversations.some(c => c.id === storedActiveId) ? storedActiveId : null;
+  const activeConversation = conversations.find(c => c.id === activeId);
+  const { messages, addMessage } = useChatHistory(user?.uid, activeId);
+  const quota = useQuota(user?.uid, role);
   const [input, setInput] = useState('');
+  const [attachments, setAttachments] = useState<ImageAttachment[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  // The conversation the in-flight answer belongs to, which may not be the one on screen.
+  const [pendingConversationId, setPendingConversationId] = useState<string | null>(null);
+  const [streamingMessage, setStreamingMessage] = useState<Message | null>(null);
+  const stopRef = useRef<(() => void) | null>(null);
+  const [failedRequest, setFailedRequest] = useState<FailedRequest | null>(null);
   const [isClient, setIsClient] = useState(false);
-  const { toast } = useToast();
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -59,73 +99,156 @@ export function ChatInterface() {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages, isLoading]);
+  }, [messages, isLoading, streamingMessage, failedRequest]);
 
-  const handleSubmit = async (e: FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || isLoading) return;
-
-    const userMessage: Message = { role: 'user', content: input };
-    const currentInput = input;
-    setMessages(prev => [...prev, userMessage]);
-    setInput('');
+  const requestAnswer = async (request: AnswerRequest) => {
+    const { conversationId, question, history, summary, images } = request;
+    setFailedRequest(null);
     setIsLoading(true);
+    setPendingConversationId(conversationId);
+
+    // Stop closes the connection, and the server stops generating when it notices.
+    const controller = new AbortController();
+    stopRef.current = () => controller.abort();
 
+    let partialAnswer = '';
     try {
-      const result: AnswerAcademicQuestionOutput = await answerAcademicQuestion({ question: currentInput });
+      if (!user) throw new FlowError('Please log in to ask EduMentor.', 'UNAUTHENTICATED');
+      const result = await streamFlow<typeof answerAcademicQuestionFlow>({
+        url: '/api/answer',
+        headers: await authHeaders(user),
+        input: { question, history, summary, images },
+        signal: controller.signal,
+        onChunk: chunk => {
+          partialAnswer += chunk;
+          setStreamingMessage({ role: 'assistant', content: partialAnswer });
+        },
+      });
+
+      if (result.status === 'error') {
+        // Errors are shown with a retry button but never saved to the history.
+        setFailedRequest({
+          ...request,
+          error: result.error ?? { code: 'unknown', message: 'An unexpected error occurred while generating the answer.' },
+        });
+        return;
+      }
+
+      if (result.summary && result.summary.turns !== summary?.turns) {
+        saveConversationSummary(conversationId, result.summary);
+      }
+
       const assistantMessage: Message = { 
         role: 'assistant', 
         content: result.answer,
         visualAids: result.visualAids,
+        provider: result.provider,
       };
-      setMessages(prev => [...prev, assistantMessage]);
+      addMessage(conversationId, assistantMessage);
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Keep whatever arrived before the student stopped it.
+        if (partialAnswer) {
+          addMessage(conversationId, { role: 'assistant', content: partialAnswer });
+        }
+        return;
+      }
       console.error(error);
-      toast({
-        variant: "destructive",
-        title: "Oh no! Something went wrong.",
-        description: "There was a problem with the AI response. Please try again.",
-      });
-      // Restore user input on error and remove the optimistic message
-      setMessages(prev => prev.filter(m => m !== userMessage));
-      setInput(currentInput);
+      setFailedRequest({ ...request, error: requestError(error) });
     } finally {
+      stopRef.current = null;
+      setStreamingMessage(null);
+      setPendingConversationId(null);
       setIsLoading(false);
     }
   };
 
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if ((!input.trim() && !attachments.length) || isLoading) return;
+
+    const userMessage: Message = { role: 'user', content: input };
+    if (attachments.length) {
+      userMessage.images = attachments.map(attachment => attachment.thumbnail);
+    }
+    const history = messages.map(({ role, content }) => ({ role, content }));
+    const conversationId = activeId ?? createConversation(input.trim() ? titleFromQuestion(input) : 'Photo question');
+    if (!conversationId) return;
+    if (!activeId) setStoredActiveId(conversationId);
+    addMessage(conversationId, userMessage);
+    setInput('');
+    setAttachments([]);
+    await requestAnswer({
+      conversationId,
+      question: userMessage.content.trim() || PHOTO_ONLY_QUESTION,
+      history,
+      summary: activeConversation?.summary,
+      images: attachments.length ? attachments.map(attachment => attachment.dataUri) : undefined,
+    });
+  };
+
+  const handleRetry = () => {
+    if (!failedRequest || isLoading) return;
+    const { error: _error, ...request } = failedRequest;
+    requestAnswer(request);
+  };
+
+  const handleDelete = (conversationId: string) => {
+    removeConversation(conversationId);
+    if (conversationId === activeId) setStoredActiveId(null);
+  };
+
+  const isActivePending = isLoading && pendingConversationId === activeId;
+
+  const handleStop = () => {
+    stopRef.current?.();
+  };
+
   return (
-    <div className="h-[calc(100vh-57px)] flex flex-col">
-      <div className="flex-1 overflow-y-auto">
-          <div className="max-w-3xl mx-auto p-4 md:p-6 space-y-6">
-              {isClient && messages.length > 0 ? (
-                  messages.map((msg, index) => (
-                      <ChatMessage key={index} message={msg} />
-                  ))
-              ) : isClient ? (
-                  <WelcomeMessage />
-              ) : null}
-              {isLoading && <TypingIndicator />}
-              <div ref={messagesEndRef} />
-          </div>
-      </div>
-      <div className="p-4 md:p-6 bg-background/95 border-t">
-        <div className="max-w-3xl mx-auto">
-            <form onSubmit={handleSubmit} className="flex items-center gap-2">
-              <Input
-                value={input}
-                onChange={e => setInput(e.target.value)}
-                placeholder="Type your doubt..."
-                className="flex-1 h-12 text-base"
-                disabled={isLoading}
-                aria-label="Chat input"
-              />
-              <Button type="submit" size="lg" disabled={isLoading || !input.trim()} aria-label="Send message">
-                <Send size={20} />
-              </Button>
-            </form>
+    <SidebarProvider className="min-h-0 h-[calc(100vh-57px)]">
+      <ConversationSidebar
+        conversations={conversations}
+        activeId={activeId}
+        onSelect={setStoredActiveId}
+        onNew={() => setStoredActiveId(null)}
+        onRename={renameConversation}
+        onSetPinned={setConversationPinned}
+        onDelete={handleDelete}
+      />
+      <SidebarInset className="min-h-0 h-full">
+        <div className="flex items-center gap-2 border-b px-4 py-2">
+          <SidebarTrigger />
+          <h2 className="truncate text-sm font-medium">{activeConversation?.title ?? 'New chat'}</h2>
         </div>
-      </div>
-    </div>
+        <div className="flex-1 overflow-y-auto">
+            <div className="max-w-3xl mx-auto p-4 md:p-6 space-y-6">
+                {isClient && messages.length > 0 ? (
+                    messages.map((msg, index) => (
+                        <ChatMessage key={msg.id ?? index} message={msg} />
+                    ))
+                ) : isClient ? (
+                    <WelcomeMessage />
+                ) : null}
+                {isActivePending && (streamingMessage ? (
+                    <ChatMessage message={streamingMessage} isStreaming />
+                ) : <TypingIndicator />)}
+                {failedRequest && !isLoading && failedRequest.conversationId === activeId && (
+                    <ChatErrorMessage error={failedRequest.error} onRetry={handleRetry} />
+                )}
+                <div ref={messagesEndRef} />
+            </div>
+        </div>
+        <ChatComposer
+          input={input}
+          onInputChange={setInput}
+          attachments={attachments}
+          onAttachmentsChange={setAttachments}
+          isLoading={isLoading}
+          onSubmit={handleSubmit}
+          onStop={handleStop}
+          requestsLeft={quota?.text}
+        />
+      </SidebarInset>
+    </SidebarProvider>
   );
 }
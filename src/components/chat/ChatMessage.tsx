@@ -1,63 +1,32 @@
 "use client";
-import { Bot, User, Clipboard, Check } from 'lucide-react';
+import { Bot, User, AlertTriangle, RotateCcw } from 'lucide-react';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { cn } from '@/lib/utils';
 import Image from 'next/image';
 import { motion } from 'framer-motion';
-import { useState } from 'react';
 import { Button } from '../ui/button';
+import { Markdown } from '@/components/chat/Markdown';
+import type { AnswerError, AnswerErrorCode } from '@/ai/errors';
 
 export interface Message {
+  id?: string;
   role: 'user' | 'assistant';
   content: string;
+  // Thumbnails of the photos attached to a question.
+  images?: string[];
   visualAids?: string;
+  provider?: string;
 }
 
-const CodeBlock = ({ code, language }: { code: string, language: string }) => {
-  const [copied, setCopied] = useState(false);
-
-  const handleCopy = () => {
-    navigator.clipboard.writeText(code);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
-  };
-
-  return (
-    <div className="relative my-4 rounded-lg bg-secondary/50 font-code">
-      <div className="flex items-center justify-between px-4 py-1.5 border-b bg-secondary/30 rounded-t-lg">
-        <span className="text-sm text-muted-foreground">{language || 'code'}</span>
-        <Button variant="ghost" size="icon" onClick={handleCopy} className="h-7 w-7 text-muted-foreground hover:text-foreground">
-          {copied ? <Check size={16} /> : <Clipboard size={16} />}
-        </Button>
-      </div>
-      <pre className="p-4 text-sm overflow-x-auto">
-        <code>{code}</code>
-      </pre>
-    </div>
-  );
+const renderContent = (message: Message) => {
+  if (!message.content) return null;
+  if (message.role === 'assistant') {
+    return <Markdown content={message.content} />;
+  }
+  return <p className="whitespace-pre-wrap leading-relaxed">{message.content}</p>;
 };
 
-const renderContent = (content: string) => {
-  if (!content) return null;
-  const parts = content.split(/(```[\s\S]*?```)/g);
-
-  return parts.map((part, index) => {
-    const codeBlockMatch = part.match(/```(\w*)\n([\s\S]*?)```/);
-    if (codeBlockMatch) {
-      const language = codeBlockMatch[1];
-      const code = codeBlockMatch[2].trim();
-      return <CodeBlock key={index} language={language} code={code} />;
-    }
-    // Only render non-empty text parts
-    const textPart = part.trim();
-    if (textPart) {
-        return <p key={index} className="whitespace-pre-wrap leading-relaxed">{textPart}</p>;
-    }
-    return null;
-  });
-};
-
-export function ChatMessage({ message }: { message: Message }) {
+export function ChatMessage({ message, isStreaming = false }: { message: Message; isStreaming?: boolean }) {
   const isAssistant = message.role === 'assistant';
 
   return (
@@ -75,14 +44,34 @@ export function ChatMessage({ message }: { message: Message }) {
         </Avatar>
       )}
       <div className={cn('max-w-2xl rounded-lg px-4 py-3', isAssistant ? 'bg-card border' : 'bg-primary text-primary-foreground')}>
-        <div className="prose prose-sm max-w-none text-current">
-          {renderContent(message.content)}
+        <div className="max-w-none text-current break-words">
+          {message.images && message.images.length > 0 && (
+            <div className={cn('flex flex-wrap gap-2', message.content && 'mb-2')}>
+              {message.images.map((image, index) => (
+                <Image
+                  key={index}
+                  src={image}
+                  alt={`Attached photo ${index + 1}`}
+                  width={160}
+                  height={160}
+                  className="h-32 w-auto rounded-md border bg-white object-contain"
+                />
+              ))}
+            </div>
+          )}
+          {renderContent(message)}
+          {isStreaming && (
+            <span className="inline-block h-4 w-2 align-text-bottom bg-muted-foreground animate-pulse" aria-hidden="true" />
+          )}
           {message.visualAids && (
             <div className="mt-4" data-ai-hint="diagram chart">
               <Image src={message.visualAids} alt="Visual Aid" width={400} height={300} className="rounded-lg border bg-white" />
             </div>
           )}
         </div>
+        {isAssistant && message.provider && (
+          <p className="mt-2 text-xs text-muted-foreground">Answered by {message.provider}</p>
+        )}
       </div>
       {!isAssistant && (
         <Avatar className="h-8 w-8 flex-shrink-0">
@@ -94,3 +83,43 @@ export function ChatMessage({ message }: { message: Message }) {
     </motion.div>
   );
 }
+
+const errorTitles: Record<AnswerErrorCode, string> = {
+  overloaded: 'The AI is overloaded',
+  'safety-blocked': 'This answer was blocked',
+  quota: 'Usage limit reached',
+  timeout: 'The AI took too long',
+  auth: 'Please log in',
+  unknown: 'Something went wrong',
+};
+
+export function ChatErrorMessage({ error, onRetry }: { error: AnswerError; onRetry: () => void }) {
+  // Rephrasing is the only way past the safety filters, so don't offer a retry for those.
+  const canRetry = error.code !== 'safety-blocked';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+      className="flex items-start gap-3 md:gap-4"
+      role="alert"
+    >
+      <Avatar className="h-8 w-8 flex-shrink-0">
+        <AvatarFallback className="bg-destructive text-destructive-foreground">
+          <AlertTriangle size={18} />
+        </AvatarFallback>
+      </Avatar>
+      <div className="max-w-2xl rounded-lg px-4 py-3 bg-card border border-destructive/50">
+        <p className="font-medium text-destructive">{errorTitles[error.code]}</p>
+        <p className="text-sm text-muted-foreground mt-1">{error.message}</p>
+        {canRetry && (
+          <Button variant="outline" size="sm" onClick={onRetry} className="mt-3">
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Retry
+          </Button>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+import { Clipboard, Check, Play, Loader2, Square } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { Highlight, themes } from 'prism-react-renderer';
+import { Button } from '../ui/button';
+import { cn } from '@/lib/utils';
+import { runCode, toRunnableLanguage, OutputLine, RunHandle } from '@/lib/sandbox/run-code';
+
+const prismLanguages: Record<string, string> = {
+  js: 'javascript',
+  mjs: 'javascript',
+  ts: 'typescript',
+  py: 'python',
+  python3: 'python',
+  sh: 'bash',
+  shell: 'bash',
+  html: 'markup',
+  xml: 'markup',
+  'c++': 'cpp',
+  yml: 'yaml',
+};
+
+interface RunState {
+  output: OutputLine[];
+  error?: string;
+  finished: boolean;
+}
+
+export const CodeBlock = ({ code, language }: { code: string, language: string }) => {
+  const [copied, setCopied] = useState(false);
+  const [run, setRun] = useState<RunState | null>(null);
+  const runHandleRef = useRef<RunHandle | null>(null);
+  const runnableLanguage = toRunnableLanguage(language);
+  const isRunning = run !== null && !run.finished;
+
+  useEffect(() => () => runHandleRef.current?.cancel(), []);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleRun = async () => {
+    if (!runnableLanguage) return;
+    setRun({ output: [], finished: false });
+    const handle = runCode(runnableLanguage, code, line =>
+      setRun(prev => prev && { ...prev, output: [...prev.output, line] })
+    );
+    runHandleRef.current = handle;
+    const outcome = await handle.done;
+    if (runHandleRef.current === handle) runHandleRef.current = null;
+    setRun(prev => prev && { ...prev, error: outcome.error, finished: true });
+  };
+
+  const handleCancel = () => runHandleRef.current?.cancel();
+
+  return (
+    <div className="relative my-4 rounded-lg bg-secondary/50 font-code">
+      <div className="flex items-center justify-between px-4 py-1.5 border-b bg-secondary/30 rounded-t-lg">
+        <span className="text-sm text-muted-foreground">{language || 'code'}</span>
+        <div className="flex items-center gap-1">
+          {runnableLanguage && (
+            isRunning ? (
+              <Button variant="ghost" size="sm" onClick={handleCancel} className="h-7 px-2 text-muted-foreground hover:text-foreground">
+                <Square size={14} className="mr-1" />
+                Stop
+              </Button>
+            ) : (
+              <Button variant="ghost" size="sm" onClick={handleRun} className="h-7 px-2 text-muted-foreground hover:text-foreground">
+                <Play size={14} className="mr-1" />
+                Run
+              </Button>
+            )
+          )}
+          <Button variant="ghost" size="icon" onClick={handleCopy} className="h-7 w-7 text-muted-foreground hover:text-foreground" aria-label="Copy code">
+            {copied ? <Check size={16} /> : <Clipboard size={16} />}
+          </Button>
+        </div>
+      </div>
+      <Highlight theme={themes.oneLight} code={code} language={prismLanguages[language.toLowerCase()] ?? language.toLowerCase()}>
+        {({ tokens, getLineProps, getTokenProps }) => (
+          <pre className="p-4 text-sm overflow-x-auto">
+            <code className="table">
+              {tokens.map((line, i) => (
+                <span key={i} {...getLineProps({ line, className: 'table-row' })}>
+                  <span className="table-cell pr-4 text-right select-none text-muted-foreground/60">{i + 1}</span>
+                  <span className="table-cell">
+                    {line.map((token, key) => (
+                      <span key={key} {...getTokenProps({ token })} />
+                    ))}
+                  </span>
+                </span>
+              ))}
+            </code>
+          </pre>
+        )}
+      </Highlight>
+      {run && (
+        <div className="border-t px-4 py-3 text-sm">
+          <div className="mb-1 flex items-center gap-2 text-xs text-muted-foreground">
+            {isRunning && <Loader2 size={12} className="animate-spin" />}
+            <span>{isRunning ? 'Running…' : 'Output'}</span>
+          </div>
+          <pre className="max-h-64 overflow-auto whitespace-pre-wrap">
+            {run.output.map((line, i) => (
+              <div key={i} className={cn(line.stream === 'stderr' && 'text-destructive')}>{line.text}</div>
+            ))}
+            {run.error && <div className="text-destructive">{run.error}</div>}
+            {run.finished && !run.error && run.output.length === 0 && (
+              <div className="text-muted-foreground italic">(no output)</div>
+            )}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+};
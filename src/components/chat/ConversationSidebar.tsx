@@ -0,0 +1,205 @@
+"use client";
+import { useState, FormEvent } from 'react';
+import { MessageSquare, MoreHorizontal, Pencil, Pin, PinOff, Plus, Trash2 } from 'lucide-react';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  useSidebar,
+} from '@/components/ui/sidebar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { Conversation } from '@/lib/firebase/chat-history';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeId: string | null;
+  onSelect: (conversationId: string) => void;
+  onNew: () => void;
+  onRename: (conversationId: string, title: string) => void;
+  onSetPinned: (conversationId: string, pinned: boolean) => void;
+  onDelete: (conversationId: string) => void;
+}
+
+export function ConversationSidebar({
+  conversations,
+  activeId,
+  onSelect,
+  onNew,
+  onRename,
+  onSetPinned,
+  onDelete,
+}: ConversationSidebarProps) {
+  const { isMobile, setOpenMobile } = useSidebar();
+  const [renaming, setRenaming] = useState<Conversation | null>(null);
+  const [renameTitle, setRenameTitle] = useState('');
+  const [deleting, setDeleting] = useState<Conversation | null>(null);
+
+  const pinned = conversations.filter(c => c.pinned);
+  const recent = conversations.filter(c => !c.pinned);
+
+  // On mobile the sidebar is a sheet, so close it once a choice is made.
+  const closeOnMobile = () => {
+    if (isMobile) setOpenMobile(false);
+  };
+
+  const startRename = (conversation: Conversation) => {
+    setRenameTitle(conversation.title);
+    setRenaming(conversation);
+  };
+
+  const handleRename = (e: FormEvent) => {
+    e.preventDefault();
+    if (renaming && renameTitle.trim()) {
+      onRename(renaming.id, renameTitle);
+    }
+    setRenaming(null);
+  };
+
+  const renderGroup = (label: string, items: Conversation[]) => (
+    items.length > 0 && (
+      <SidebarGroup>
+        <SidebarGroupLabel>{label}</SidebarGroupLabel>
+        <SidebarGroupContent>
+          <SidebarMenu>
+            {items.map(conversation => (
+              <SidebarMenuItem key={conversation.id}>
+                <SidebarMenuButton
+                  isActive={conversation.id === activeId}
+                  onClick={() => {
+                    onSelect(conversation.id);
+                    closeOnMobile();
+                  }}
+                  tooltip={conversation.title}
+                >
+                  <MessageSquare />
+                  <span>{conversation.title}</span>
+                </SidebarMenuButton>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <SidebarMenuAction showOnHover aria-label={`Options for ${conversation.title}`}>
+                      <MoreHorizontal />
+                    </SidebarMenuAction>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent side="right" align="start">
+                    <DropdownMenuItem onClick={() => startRename(conversation)}>
+                      <Pencil className="mr-2 h-4 w-4" />
+                      <span>Rename</span>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => onSetPinned(conversation.id, !conversation.pinned)}>
+                      {conversation.pinned ? <PinOff className="mr-2 h-4 w-4" /> : <Pin className="mr-2 h-4 w-4" />}
+                      <span>{conversation.pinned ? 'Unpin' : 'Pin'}</span>
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={() => setDeleting(conversation)} className="text-destructive focus:text-destructive">
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      <span>Delete</span>
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </SidebarMenuItem>
+            ))}
+          </SidebarMenu>
+        </SidebarGroupContent>
+      </SidebarGroup>
+    )
+  );
+
+  return (
+    <>
+      {/* Offset below the sticky site header. */}
+      <Sidebar className="top-[57px] h-[calc(100svh-57px)]">
+        <SidebarHeader>
+          <Button
+            variant="outline"
+            className="w-full justify-start"
+            onClick={() => {
+              onNew();
+              closeOnMobile();
+            }}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            New chat
+          </Button>
+        </SidebarHeader>
+        <SidebarContent>
+          {renderGroup('Pinned', pinned)}
+          {renderGroup('Chats', recent)}
+        </SidebarContent>
+      </Sidebar>
+
+      <Dialog open={renaming !== null} onOpenChange={open => !open && setRenaming(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Rename chat</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleRename} className="space-y-4">
+            <Input
+              value={renameTitle}
+              onChange={e => setRenameTitle(e.target.value)}
+              aria-label="Chat title"
+              autoFocus
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setRenaming(null)}>Cancel</Button>
+              <Button type="submit" disabled={!renameTitle.trim()}>Save</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleting !== null} onOpenChange={open => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this chat?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &ldquo;{deleting?.title}&rdquo; and all of its messages will be permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deleting) onDelete(deleting.id);
+                setDeleting(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+import { Children, isValidElement, ReactNode } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeSanitize from 'rehype-sanitize';
+import { CodeBlock } from '@/components/chat/CodeBlock';
+import { MathFormula } from '@/components/chat/MathFormula';
+
+const components: Components = {
+  h1: ({ children }) => <h1 className="mt-4 mb-2 text-xl font-bold">{children}</h1>,
+  h2: ({ children }) => <h2 className="mt-4 mb-2 text-lg font-bold">{children}</h2>,
+  h3: ({ children }) => <h3 className="mt-3 mb-2 text-base font-semibold">{children}</h3>,
+  h4: ({ children }) => <h4 className="mt-3 mb-1 font-semibold">{children}</h4>,
+  p: ({ children }) => <p className="my-2 leading-relaxed">{children}</p>,
+  strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
+  ul: ({ children }) => <ul className="my-2 list-disc space-y-1 pl-6">{children}</ul>,
+  ol: ({ children }) => <ol className="my-2 list-decimal space-y-1 pl-6">{children}</ol>,
+  li: ({ children }) => <li className="leading-relaxed">{children}</li>,
+  a: ({ children, href }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-primary underline underline-offset-2">
+      {children}
+    </a>
+  ),
+  blockquote: ({ children }) => (
+    <blockquote className="my-3 border-l-4 pl-4 italic text-muted-foreground">{children}</blockquote>
+  ),
+  hr: () => <hr className="my-4" />,
+  table: ({ children }) => (
+    <div className="my-3 overflow-x-auto">
+      <table className="w-full border-collapse text-sm">{children}</table>
+    </div>
+  ),
+  thead: ({ children }) => <thead className="bg-secondary/50">{children}</thead>,
+  th: ({ children, style }) => <th style={style} className="border px-3 py-1.5 text-left font-semibold">{children}</th>,
+  td: ({ children, style }) => <td style={style} className="border px-3 py-1.5">{children}</td>,
+  // remark-math turns $...$ into <code class="language-math"> and $$...$$ into the same inside a <pre>.
+  code: ({ children, className }) => (
+    className?.includes('language-math')
+      ? <MathFormula latex={String(children ?? '')} />
+      : <code className="rounded bg-secondary px-1 py-0.5 font-code text-[0.9em]">{children}</code>
+  ),
+  // Fenced blocks arrive as <pre><code class="language-x">; hand them to CodeBlock instead.
+  pre: ({ children }) => {
+    const child = Children.toArray(children)[0];
+    if (!isValidElement<{ className?: string; children?: ReactNode }>(child)) {
+      return <pre>{children}</pre>;
+    }
+    const language = /language-([\w+#-]+)/.exec(child.props.className ?? '')?.[1] ?? '';
+    const code = String(child.props.children ?? '').replace(/\n$/, '');
+    if (language === 'math') {
+      return <MathFormula latex={code} display />;
+    }
+    return <CodeBlock language={language} code={code} />;
+  },
+};
+
+export function Markdown({ content }: { content: string }) {
+  return (
+    <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[rehypeSanitize]} components={components}>
+      {content}
+    </ReactMarkdown>
+  );
+}
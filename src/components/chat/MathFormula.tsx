@@ -0,0 +1,44 @@
+"use client";
+import { useMemo, useState } from 'react';
+import katex from 'katex';
+import { Clipboard, Check } from 'lucide-react';
+import { Button } from '../ui/button';
+import { cn } from '@/lib/utils';
+
+// KaTeX builds the markup from the TeX source itself (with `trust` off), so it is safe to inject.
+const renderLatex = (latex: string, displayMode: boolean) =>
+  katex.renderToString(latex, { displayMode, throwOnError: false, output: 'htmlAndMathml' });
+
+export const MathFormula = ({ latex, display = false }: { latex: string, display?: boolean }) => {
+  const [copied, setCopied] = useState(false);
+  const html = useMemo(() => renderLatex(latex, display), [latex, display]);
+
+  if (!display) {
+    return <span title={latex} dangerouslySetInnerHTML={{ __html: html }} />;
+  }
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(`$$\n${latex}\n$$`);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="group relative my-3">
+      <div className="overflow-x-auto py-1" dangerouslySetInnerHTML={{ __html: html }} />
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={handleCopy}
+        className={cn(
+          "absolute right-0 top-0 h-7 w-7 text-muted-foreground hover:text-foreground opacity-0 group-hover:opacity-100 focus-visible:opacity-100",
+          copied && "opacity-100"
+        )}
+        aria-label="Copy as LaTeX"
+        title="Copy as LaTeX"
+      >
+        {copied ? <Check size={16} /> : <Clipboard size={16} />}
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+"use client";
+
+import { useState } from "react";
+import { Github, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/firebase/auth";
+import { authErrorMessage, isCancelledSignIn } from "@/lib/firebase/auth-errors";
+import { linkProvider, unlinkProvider, OAuthProviderId, OAUTH_PROVIDERS } from "@/lib/firebase/oauth";
+
+export function ConnectedAccounts() {
+  const { user, refreshUser } = useAuth();
+  const { toast } = useToast();
+  const [changing, setChanging] = useState<OAuthProviderId | null>(null);
+
+  if (!user) return null;
+  const linked = (id: string) => user.providerData.some((info) => info.providerId === id);
+  // Unlinking the last way to log in would lock them out.
+  const canUnlink = user.providerData.length > 1;
+
+  const toggle = async (id: OAuthProviderId, label: string) => {
+    const isLinked = linked(id);
+    setChanging(id);
+    try {
+      if (isLinked) {
+        await unlinkProvider(user, id);
+      } else {
+        await linkProvider(user, id);
+      }
+      refreshUser();
+      toast(isLinked
+        ? { title: `${label} unlinked`, description: `You can no longer log in with ${label}.` }
+        : { title: "Accounts linked", description: `You can now log in with ${label} too.` });
+    } catch (error) {
+      if (isCancelledSignIn(error)) return;
+      console.error(error);
+      toast({
+        variant: "destructive",
+        title: isLinked ? `Couldn't unlink ${label}` : `Couldn't link ${label}`,
+        description: authErrorMessage(error),
+      });
+    } finally {
+      setChanging(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Connected accounts</CardTitle>
+        <CardDescription>Log in with Google or GitHub as well as your email.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {OAUTH_PROVIDERS.map(({ id, label }) => (
+          <div key={id} className="flex items-center justify-between rounded-lg border p-3">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              {id === "github.com" && <Github className="h-4 w-4" />}
+              {label}
+              {linked(id) && <Badge variant="secondary">Linked</Badge>}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => toggle(id, label)}
+              disabled={changing !== null || (linked(id) && !canUnlink)}
+            >
+              {changing === id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {linked(id) ? "Unlink" : "Link"}
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
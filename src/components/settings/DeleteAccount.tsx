@@ -0,0 +1,119 @@
+"use client";
+
+import { useState, MouseEvent } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button, buttonVariants } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/firebase/auth";
+import { authErrorMessage, isCancelledSignIn } from "@/lib/firebase/auth-errors";
+import { deleteAccount, hasPassword, AccountDeletionError } from "@/lib/firebase/account";
+
+export function DeleteAccount() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [password, setPassword] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  if (!user) return null;
+  const withPassword = hasPassword(user);
+
+  const handleDelete = async (e: MouseEvent) => {
+    // Keep the dialog open until it's done, so a wrong password can be corrected.
+    e.preventDefault();
+    setIsDeleting(true);
+    try {
+      await deleteAccount(user, password);
+      toast({ title: "Account deleted", description: "Your account and everything in it have been deleted." });
+      router.push("/signup");
+    } catch (error) {
+      if (isCancelledSignIn(error)) return;
+      console.error(error);
+      toast({
+        variant: "destructive",
+        title: "Couldn't delete your account",
+        description: error instanceof AccountDeletionError ? error.message : authErrorMessage(error),
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Card className="border-destructive/50">
+      <CardHeader>
+        <CardTitle>Delete account</CardTitle>
+        <CardDescription>
+          Permanently delete your account, your chat history and your whiteboards. This can&apos;t be undone.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <AlertDialog
+          open={open}
+          onOpenChange={(next) => {
+            if (isDeleting) return;
+            setOpen(next);
+            setPassword("");
+          }}
+        >
+          <AlertDialogTrigger asChild>
+            <Button variant="destructive">
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete account
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Your chat history, your whiteboards (including for anyone you shared them with) and your profile
+                will be permanently deleted.{" "}
+                {withPassword ? "Enter your password to confirm." : "You'll be asked to log in again to confirm."}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            {withPassword && (
+              <div className="space-y-2">
+                <Label htmlFor="delete-account-password">Password</Label>
+                <Input
+                  id="delete-account-password"
+                  type="password"
+                  placeholder="••••••••"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+            )}
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                className={buttonVariants({ variant: "destructive" })}
+                onClick={handleDelete}
+                disabled={isDeleting || (withPassword && !password)}
+              >
+                {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Delete account
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useRef, useState, ChangeEvent } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Loader2, Upload } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/firebase/auth";
+import { authErrorMessage } from "@/lib/firebase/auth-errors";
+import { removeAvatar, updateDisplayName, uploadAvatar } from "@/lib/firebase/account";
+
+const profileSchema = z.object({
+  name: z.string().trim().min(1, { message: "Name is required." }).max(80, { message: "Please keep it under 80 characters." }),
+});
+
+type ProfileFormValues = z.infer<typeof profileSchema>;
+
+export function ProfileSettings() {
+  const { user, refreshUser } = useAuth();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: {
+      name: user?.displayName ?? "",
+    },
+  });
+
+  if (!user) return null;
+
+  async function onSubmit(data: ProfileFormValues) {
+    if (!user) return;
+    setIsSaving(true);
+    try {
+      await updateDisplayName(user, data.name);
+      refreshUser();
+      toast({ title: "Profile updated", description: "Your name has been changed." });
+    } catch (error) {
+      console.error(error);
+      toast({ variant: "destructive", title: "Couldn't save your name", description: authErrorMessage(error) });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  const changeAvatar = async (change: () => Promise<void>) => {
+    setIsUploading(true);
+    try {
+      await change();
+      refreshUser();
+    } catch (error) {
+      console.error(error);
+      toast({ variant: "destructive", title: "Couldn't change your picture", description: authErrorMessage(error) });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again.
+    e.target.value = "";
+    if (file) changeAvatar(() => uploadAvatar(user, file));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Profile</CardTitle>
+        <CardDescription>How you appear in the app and to others on shared whiteboards.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center gap-4">
+          <Avatar className="h-16 w-16">
+            <AvatarImage src={user.photoURL ?? ""} alt={user.displayName ?? "User"} />
+            <AvatarFallback className="text-xl">{user.email?.[0].toUpperCase()}</AvatarFallback>
+          </Avatar>
+          <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleFileChange} />
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isUploading}>
+              {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Change picture
+            </Button>
+            {user.photoURL && (
+              <Button variant="ghost" size="sm" onClick={() => changeAvatar(() => removeAvatar(user))} disabled={isUploading}>
+                Remove
+              </Button>
+            )}
+          </div>
+        </div>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="flex items-end gap-2">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Your Name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,199 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/firebase/auth";
+import { authErrorMessage, isCancelledSignIn } from "@/lib/firebase/auth-errors";
+import { changeEmail, changePassword, hasPassword } from "@/lib/firebase/account";
+
+// The current password is only asked for when the account has one; otherwise the provider's popup confirms it's them.
+const emailSchema = z.object({
+  email: z.string().email({ message: "Please enter a valid email address." }),
+  currentPassword: z.string(),
+});
+
+const passwordSchema = z
+  .object({
+    password: z.string().min(6, { message: "Password must be at least 6 characters long." }),
+    confirmPassword: z.string(),
+    currentPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "The passwords don't match.",
+    path: ["confirmPassword"],
+  });
+
+type EmailFormValues = z.infer<typeof emailSchema>;
+type PasswordFormValues = z.infer<typeof passwordSchema>;
+
+export function SignInSettings() {
+  const { user, refreshUser } = useAuth();
+  const { toast } = useToast();
+  const [isChangingEmail, setIsChangingEmail] = useState(false);
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+
+  const emailForm = useForm<EmailFormValues>({
+    resolver: zodResolver(emailSchema),
+    defaultValues: { email: "", currentPassword: "" },
+  });
+  const passwordForm = useForm<PasswordFormValues>({
+    resolver: zodResolver(passwordSchema),
+    defaultValues: { password: "", confirmPassword: "", currentPassword: "" },
+  });
+
+  if (!user) return null;
+  const withPassword = hasPassword(user);
+
+  async function onChangeEmail(data: EmailFormValues) {
+    if (!user) return;
+    setIsChangingEmail(true);
+    try {
+      await changeEmail(user, data.email, data.currentPassword);
+      emailForm.reset();
+      toast({
+        title: "Check your inbox",
+        description: `Follow the link we sent to ${data.email} to finish changing your email.`,
+      });
+    } catch (error) {
+      if (isCancelledSignIn(error)) return;
+      console.error(error);
+      toast({ variant: "destructive", title: "Couldn't change your email", description: authErrorMessage(error) });
+    } finally {
+      setIsChangingEmail(false);
+    }
+  }
+
+  async function onChangePassword(data: PasswordFormValues) {
+    if (!user) return;
+    setIsChangingPassword(true);
+    try {
+      await changePassword(user, data.password, data.currentPassword);
+      passwordForm.reset();
+      refreshUser();
+      toast({
+        title: withPassword ? "Password changed" : "Password set",
+        description: withPassword ? "Use your new password next time you log in." : `You can now log in with ${user.email} and this password.`,
+      });
+    } catch (error) {
+      if (isCancelledSignIn(error)) return;
+      console.error(error);
+      toast({ variant: "destructive", title: "Couldn't change your password", description: authErrorMessage(error) });
+    } finally {
+      setIsChangingPassword(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Email and password</CardTitle>
+        <CardDescription>
+          You log in as <span className="font-medium text-foreground">{user.email}</span>.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Form {...emailForm}>
+          <form onSubmit={emailForm.handleSubmit(onChangeEmail)} className="space-y-4">
+            <FormField
+              control={emailForm.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New email</FormLabel>
+                  <FormControl>
+                    <Input placeholder="name@example.com" autoComplete="email" {...field} />
+                  </FormControl>
+                  <FormDescription>We&apos;ll send a link to the new address to confirm it.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {withPassword && (
+              <FormField
+                control={emailForm.control}
+                name="currentPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Current password</FormLabel>
+                    <FormControl>
+                      <Input type="password" placeholder="••••••••" autoComplete="current-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <Button type="submit" disabled={isChangingEmail}>
+              {isChangingEmail && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Change email
+            </Button>
+          </form>
+        </Form>
+        <Separator />
+        <Form {...passwordForm}>
+          <form onSubmit={passwordForm.handleSubmit(onChangePassword)} className="space-y-4">
+            {!withPassword && (
+              <p className="text-sm text-muted-foreground">
+                You log in with Google or GitHub. Set a password to also log in with your email.
+              </p>
+            )}
+            <FormField
+              control={passwordForm.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New password</FormLabel>
+                  <FormControl>
+                    <Input type="password" placeholder="••••••••" autoComplete="new-password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={passwordForm.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Confirm new password</FormLabel>
+                  <FormControl>
+                    <Input type="password" placeholder="••••••••" autoComplete="new-password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {withPassword && (
+              <FormField
+                control={passwordForm.control}
+                name="currentPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Current password</FormLabel>
+                    <FormControl>
+                      <Input type="password" placeholder="••••••••" autoComplete="current-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <Button type="submit" disabled={isChangingPassword}>
+              {isChangingPassword && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {withPassword ? "Change password" : "Set password"}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import {
+  arrowHeadPoints,
+  freehandPathData,
+  pressureWidth,
+  renderedWidth,
+  HIGHLIGHTER_OPACITY,
+  WhiteboardElement,
+} from '@/lib/whiteboard/elements';
+
+export function ElementShape({ element }: { element: WhiteboardElement }) {
+  if (element.type === 'image') {
+    return (
+      <image
+        href={element.href}
+        x={element.x}
+        y={element.y}
+        width={element.width}
+        height={element.height}
+        preserveAspectRatio="none"
+      >
+        <title>{element.alt}</title>
+      </image>
+    );
+  }
+
+  const outline = {
+    stroke: element.stroke,
+    strokeWidth: renderedWidth(element),
+    fill: 'none',
+    strokeLinecap: 'round' as const,
+    strokeLinejoin: 'round' as const,
+  };
+
+  switch (element.type) {
+    case 'pen':
+    case 'highlighter':
+      // Pressure-sensitive strokes are drawn segment by segment so the width can vary along them.
+      if (element.type === 'pen' && element.points.some(point => point.pressure !== undefined)) {
+        return (
+          <g {...outline}>
+            {element.points.slice(1).map((point, i) => {
+              const previous = element.points[i];
+              const pressure = ((previous.pressure ?? 0.5) + (point.pressure ?? 0.5)) / 2;
+              return (
+                <line
+                  key={i}
+                  x1={previous.x}
+                  y1={previous.y}
+                  x2={point.x}
+                  y2={point.y}
+                  strokeWidth={pressureWidth(element.strokeWidth, pressure)}
+                />
+              );
+            })}
+          </g>
+        );
+      }
+      return (
+        <path
+          d={freehandPathData(element.points)}
+          opacity={element.type === 'highlighter' ? HIGHLIGHTER_OPACITY : undefined}
+          {...outline}
+        />
+      );
+    case 'line':
+      return <line x1={element.start.x} y1={element.start.y} x2={element.end.x} y2={element.end.y} {...outline} />;
+    case 'arrow': {
+      const [left, right] = arrowHeadPoints(element.start, element.end, element.strokeWidth);
+      return (
+        <g {...outline}>
+          <line x1={element.start.x} y1={element.start.y} x2={element.end.x} y2={element.end.y} />
+          <polyline points={`${left.x},${left.y} ${element.end.x},${element.end.y} ${right.x},${right.y}`} />
+        </g>
+      );
+    }
+    case 'rectangle':
+      return <rect x={element.x} y={element.y} width={element.width} height={element.height} {...outline} />;
+    case 'ellipse':
+      return (
+        <ellipse
+          cx={element.x + element.width / 2}
+          cy={element.y + element.height / 2}
+          rx={element.width / 2}
+          ry={element.height / 2}
+          {...outline}
+        />
+      );
+    case 'text':
+      return (
+        <text x={element.x} y={element.y} fill={element.stroke} fontSize={element.fontSize} className="select-none">
+          {element.text}
+        </text>
+      );
+  }
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import { useEffect, useRef, useState, FormEvent } from 'react';
+import Image from 'next/image';
+import { Loader2, LocateFixed, MessageCircleQuestion, Send, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Markdown } from '@/components/chat/Markdown';
+import { ChatErrorMessage } from '@/components/chat/ChatMessage';
+import { cn } from '@/lib/utils';
+import type { RegionQuestion } from '@/hooks/use-region-questions';
+
+// The quick questions offered for a lasso selection: the label shown, and what's sent to the tutor.
+export const REGION_PROMPTS = [
+  {
+    label: 'Explain this step',
+    question: 'This is part of my work from the whiteboard. Explain this step: what is being done here and why?',
+  },
+  {
+    label: 'Check my work',
+    question: 'This is my work from the whiteboard. Check it: is it correct? Point out any mistakes and how to fix them, without just giving me the final answer.',
+  },
+];
+
+interface RegionAskBarProps {
+  // Where to show the bar, relative to the canvas container.
+  left: number;
+  top: number;
+  onAsk: (label: string, question: string) => void;
+  onCancel: () => void;
+}
+
+/** The choices shown under a lasso selection. */
+export function RegionAskBar({ left, top, onAsk, onCancel }: RegionAskBarProps) {
+  const [custom, setCustom] = useState('');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (custom.trim()) onAsk(custom.trim(), custom.trim());
+  };
+
+  return (
+    <div
+      className="absolute z-10 flex w-72 flex-col gap-2 rounded-lg border bg-popover p-2 text-popover-foreground shadow-md"
+      style={{ left, top }}
+    >
+      <div className="flex gap-2">
+        {REGION_PROMPTS.map(({ label, question }) => (
+          <Button key={label} size="sm" variant="secondary" className="flex-1" onClick={() => onAsk(label, question)}>
+            {label}
+          </Button>
+        ))}
+        <Button size="icon" variant="ghost" className="h-9 w-9 shrink-0" onClick={onCancel} aria-label="Cancel">
+          <X />
+        </Button>
+      </div>
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <Input
+          value={custom}
+          onChange={e => setCustom(e.target.value)}
+          placeholder="Or ask something else…"
+          className="h-8"
+          aria-label="Question about the selection"
+        />
+        <Button type="submit" size="icon" className="h-8 w-8 shrink-0" disabled={!custom.trim()} aria-label="Ask">
+          <Send />
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+interface RegionQuestionPanelProps {
+  questions: RegionQuestion[];
+  focusedId: string | null;
+  onFocus: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+/**
+ * The tutor's answers to questions about parts of the board, newest first. Each one is numbered
+ * like the outline of its region on the board; "Show on board" moves the board to it.
+ */
+export function RegionQuestionPanel({ questions, focusedId, onFocus, onRetry, onRemove }: RegionQuestionPanelProps) {
+  const itemRefs = useRef(new Map<string, HTMLDivElement>());
+
+  // Clicking a region's number on the board brings its answer into view.
+  useEffect(() => {
+    if (focusedId) itemRefs.current.get(focusedId)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [focusedId]);
+
+  return (
+    <Card className="h-fit">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageCircleQuestion className="h-5 w-5" />
+          Ask the tutor
+        </CardTitle>
+        <CardDescription>Use the lasso to circle part of your work and ask about it.</CardDescription>
+      </CardHeader>
+      {questions.length > 0 && (
+        <CardContent className="max-h-[60vh] space-y-4 overflow-y-auto">
+          {questions.map((question, i) => ({ question, number: i + 1 })).reverse().map(({ question, number }) => (
+            <div
+              key={question.id}
+              ref={element => {
+                if (element) itemRefs.current.set(question.id, element);
+                else itemRefs.current.delete(question.id);
+              }}
+              className={cn(
+                'space-y-2 rounded-lg border p-3 transition-colors',
+                focusedId === question.id && 'border-primary bg-primary/5'
+              )}
+            >
+              <div className="flex items-start gap-3">
+                <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-primary text-xs font-medium text-primary-foreground">
+                  {number}
+                </span>
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium">{question.label}</p>
+                  <Image
+                    src={question.snapshot}
+                    alt="The circled part of the board"
+                    width={160}
+                    height={160}
+                    className="mt-2 h-24 w-auto rounded-md border bg-white object-contain"
+                  />
+                </div>
+                <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={() => onRemove(question.id)} aria-label="Remove">
+                  <X />
+                </Button>
+              </div>
+              {question.status === 'error' && question.error ? (
+                <ChatErrorMessage error={question.error} onRetry={() => onRetry(question.id)} />
+              ) : question.answer ? (
+                <div className="break-words text-sm">
+                  <Markdown content={question.answer} />
+                </div>
+              ) : (
+                <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Thinking…
+                </p>
+              )}
+              <Button variant="link" size="sm" className="h-auto p-0" onClick={() => onFocus(question.id)}>
+                <LocateFixed className="mr-1 h-3 w-3" />
+                Show on board
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { useState } from 'react';
+import { Check, Link as LinkIcon } from 'lucide-react';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import type { Participant } from '@/lib/firebase/whiteboard-rooms';
+
+const initials = (name: string) => name.trim()[0]?.toUpperCase() ?? '?';
+
+interface RoomPresenceProps {
+  roomId: string;
+  participants: Participant[];
+  currentUid?: string;
+}
+
+export function RoomPresence({ roomId, participants, currentUid }: RoomPresenceProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(`${window.location.origin}/whiteboard/${roomId}`);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">In this room</p>
+        <span className="text-xs text-muted-foreground">{participants.length} online</span>
+      </div>
+      <TooltipProvider>
+        <div className="flex flex-wrap gap-2">
+          {participants.map(participant => (
+            <Tooltip key={participant.uid}>
+              <TooltipTrigger asChild>
+                <Avatar className="h-8 w-8 border-2" style={{ borderColor: participant.color }}>
+                  <AvatarFallback className="text-xs text-white" style={{ backgroundColor: participant.color }}>
+                    {initials(participant.name)}
+                  </AvatarFallback>
+                </Avatar>
+              </TooltipTrigger>
+              <TooltipContent>
+                {participant.name}{participant.uid === currentUid && ' (you)'}
+              </TooltipContent>
+            </Tooltip>
+          ))}
+        </div>
+      </TooltipProvider>
+      <Button variant="secondary" onClick={handleCopyLink} className="w-full">
+        {copied ? <Check className="mr-2 h-4 w-4" /> : <LinkIcon className="mr-2 h-4 w-4" />}
+        {copied ? 'Link copied' : 'Copy invite link'}
+      </Button>
+    </div>
+  );
+}
+
+// Drawn inside the whiteboard's SVG, so the position is in the same coordinates as the strokes.
+export function RemoteCursor({ participant }: { participant: Participant }) {
+  if (!participant.cursor) return null;
+  const { x, y } = participant.cursor;
+
+  return (
+    <g transform={`translate(${x} ${y})`} className="pointer-events-none transition-transform duration-100 ease-linear">
+      <path d="M 0 0 L 0 16 L 4.5 12 L 8 19 L 10.5 18 L 7 11 L 13 11 Z" fill={participant.color} stroke="white" strokeWidth={1} />
+      <text x={14} y={26} fontSize={11} fill="white" stroke={participant.color} strokeWidth={3} paintOrder="stroke">
+        {participant.name}
+      </text>
+    </g>
+  );
+}
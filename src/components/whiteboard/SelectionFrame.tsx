@@ -0,0 +1,64 @@
+"use client";
+
+import type { Bounds } from '@/lib/whiteboard/elements';
+
+export type Corner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+const HANDLE_SIZE = 10;
+const PADDING = 4;
+
+export const cornerPoint = (box: Bounds, corner: Corner) => ({
+  x: corner.endsWith('left') ? box.x : box.x + box.width,
+  y: corner.startsWith('top') ? box.y : box.y + box.height,
+});
+
+export const oppositeCorner = (corner: Corner): Corner =>
+  `${corner.startsWith('top') ? 'bottom' : 'top'}-${corner.endsWith('left') ? 'right' : 'left'}` as Corner;
+
+const cursors: Record<Corner, string> = {
+  'top-left': 'nwse-resize',
+  'bottom-right': 'nwse-resize',
+  'top-right': 'nesw-resize',
+  'bottom-left': 'nesw-resize',
+};
+
+interface SelectionFrameProps {
+  bounds: Bounds;
+  resizable: boolean;
+}
+
+/**
+ * Outlines the selected element. The corner handles carry a `data-handle` attribute naming the
+ * corner, which the whiteboard reads off the event target to start a resize.
+ */
+export function SelectionFrame({ bounds, resizable }: SelectionFrameProps) {
+  const frame = {
+    x: bounds.x - PADDING,
+    y: bounds.y - PADDING,
+    width: bounds.width + PADDING * 2,
+    height: bounds.height + PADDING * 2,
+  };
+
+  return (
+    <g>
+      <rect {...frame} fill="none" stroke="#2563eb" strokeWidth={1} strokeDasharray="4 3" pointerEvents="none" />
+      {resizable && (Object.keys(cursors) as Corner[]).map(corner => {
+        const { x, y } = cornerPoint(bounds, corner);
+        return (
+          <rect
+            key={corner}
+            data-handle={corner}
+            x={x - HANDLE_SIZE / 2}
+            y={y - HANDLE_SIZE / 2}
+            width={HANDLE_SIZE}
+            height={HANDLE_SIZE}
+            fill="white"
+            stroke="#2563eb"
+            strokeWidth={1.5}
+            style={{ cursor: cursors[corner] }}
+          />
+        );
+      })}
+    </g>
+  );
+}
@@ -1,53 +1,473 @@
 "use client";
 
-import { useState, useRef, MouseEvent } from 'react';
-import { generateWhiteboardDiagram } from '@/ai/flows/generate-whiteboard-diagram';
+import { useState, useRef, useEffect, useMemo, useCallback, KeyboardEvent, MouseEvent, PointerEvent } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { generateVectorDiagram, generateWhiteboardDiagram } from '@/ai/flows/generate-whiteboard-diagram';
+import type { AnswerError } from '@/ai/errors';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { Loader2, Zap, Eraser } from 'lucide-react';
+import { ArrowLeft, Loader2, Zap, Eraser } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import Image from 'next/image';
+import { useWhiteboardRoom } from '@/hooks/use-whiteboard-room';
+import { useWhiteboardHistory } from '@/hooks/use-whiteboard-history';
+import { useWhiteboardView } from '@/hooks/use-whiteboard-view';
+import { useRegionQuestions } from '@/hooks/use-region-questions';
+import { useQuota } from '@/hooks/use-quota';
+import { useAuth } from '@/lib/firebase/auth';
+import { resizeImageToDataUri } from '@/lib/images';
+import { quotaLeftLabel, QuotaKind } from '@/lib/quota';
+import { touchRoom, ElementChange, MAX_IMAGE_BYTES } from '@/lib/firebase/whiteboard-rooms';
+import {
+  createBoard,
+  loadLocalBoard,
+  rememberBoard,
+  removeLocalBoard,
+  renameBoard,
+  saveLocalBoard,
+} from '@/lib/firebase/whiteboard-boards';
+import { toWhiteboardDocument } from '@/lib/whiteboard/document';
+import { exportRegionImage, intersects, outlineBounds, WhiteboardImport } from '@/lib/whiteboard/export';
+import { layoutDiagram } from '@/lib/whiteboard/diagram-spec';
+import {
+  boxFromCorners,
+  elementBounds,
+  eraseFromFreehand,
+  fitInside,
+  hitTest,
+  textFontSize,
+  translateElement,
+  unionBounds,
+  Bounds,
+  Point,
+  StrokePoint,
+  TextElement,
+  WhiteboardElement,
+} from '@/lib/whiteboard/elements';
+import { RoomPresence, RemoteCursor } from '@/components/whiteboard/RoomPresence';
+import { ElementShape } from '@/components/whiteboard/ElementShape';
+import { WhiteboardMinimap } from '@/components/whiteboard/WhiteboardMinimap';
+import { WhiteboardFileMenu } from '@/components/whiteboard/WhiteboardFileMenu';
+import { RegionAskBar, RegionQuestionPanel } from '@/components/whiteboard/RegionQuestionPanel';
+import { SelectionFrame, Corner, cornerPoint, oppositeCorner } from '@/components/whiteboard/SelectionFrame';
+import { WhiteboardToolbar, EraserMode, WhiteboardTool, COLORS } from '@/components/whiteboard/WhiteboardToolbar';
 import { cn } from '@/lib/utils';
 
-interface Path {
-  points: { x: number; y: number }[];
-  stroke: string;
-  strokeWidth: number;
+// Generated diagrams are shared through Firestore, so shrink them well below its document size limit.
+const SHARED_DIAGRAM_DIMENSION = 1280;
+
+// New diagrams are placed in the middle of what's on screen, leaving room around them for notes.
+const diagramArea = (visible: Bounds): Bounds => ({
+  x: visible.x + visible.width * 0.2,
+  y: visible.y + visible.height * 0.2,
+  width: visible.width * 0.6,
+  height: visible.height * 0.6,
+});
+
+// Saving waits for a pause in drawing so a stroke isn't saved point by point.
+const AUTOSAVE_DELAY_MS = 1500;
+
+// How far the arrow keys move the view, in screen pixels.
+const KEYBOARD_PAN_STEP = 80;
+
+const MIN_RESIZE = 10;
+
+// Snapshots of lasso selections are sent to the tutor at the same size as photos attached in chat.
+const REGION_IMAGE_DIMENSION = 1600;
+// The ask bar's width (w-72), to keep it inside the board.
+const ASK_BAR_WIDTH = 288;
+
+// Touches this soon after the pen was last seen are taken to be the hand resting on the screen.
+const PALM_REJECTION_MS = 1000;
+
+async function compressDiagram(dataUri: string): Promise<{ href: string; width: number; height: number }> {
+  const blob = await (await fetch(dataUri)).blob();
+  const bitmap = await createImageBitmap(blob);
+  const { width, height } = bitmap;
+  bitmap.close();
+  return { href: await resizeImageToDataUri(blob, SHARED_DIAGRAM_DIMENSION), width, height };
+}
+
+// Elements whose box can be dragged to a new size from the selection handles.
+const isResizable = (element: WhiteboardElement) =>
+  element.type === 'image' || element.type === 'rectangle' || element.type === 'ellipse';
+
+// A move or resize in progress with the select tool.
+interface Transform {
+  original: WhiteboardElement;
+  start: Point;
+  corner?: Corner;
+}
+
+function resizeElement(element: WhiteboardElement, corner: Corner, point: Point): WhiteboardElement {
+  if (element.type !== 'image' && element.type !== 'rectangle' && element.type !== 'ellipse') return element;
+  const anchor = cornerPoint(element, oppositeCorner(corner));
+  const box = boxFromCorners(anchor, point);
+  if (element.type !== 'image') {
+    return { ...element, ...box, width: Math.max(box.width, MIN_RESIZE), height: Math.max(box.height, MIN_RESIZE) };
+  }
+  // Diagrams keep their aspect ratio so they don't get distorted.
+  const scale = Math.max(box.width / element.width, box.height / element.height, MIN_RESIZE / Math.min(element.width, element.height));
+  const width = element.width * scale;
+  const height = element.height * scale;
+  return {
+    ...element,
+    x: point.x < anchor.x ? anchor.x - width : anchor.x,
+    y: point.y < anchor.y ? anchor.y - height : anchor.y,
+    width,
+    height,
+  };
+}
+
+// Erasing is previewed locally and saved as one change when the pointer is lifted.
+interface Erasure {
+  removed: Map<string, WhiteboardElement>;
+  added: WhiteboardElement[];
+}
+
+interface TextEntry {
+  point: Point;
+  // Where to show the text box, relative to the canvas container, and its font size on screen.
+  left: number;
+  top: number;
+  fontSize: number;
+  value: string;
+  // The text element being changed, when editing existing text rather than adding new.
+  editing?: TextElement;
+}
+
+// A lasso selection waiting for the user to choose what to ask about it, and where to show the choices.
+interface PendingRegion {
+  outline: Point[];
+  left: number;
+  top: number;
 }
 
-export function Whiteboard() {
+// 'editable' asks for a node and edge description and draws it with shapes and text; 'picture' asks an image model.
+type DiagramMode = 'editable' | 'picture';
+
+const eraserRadius = (width: number) => 4 + width * 2;
+
+// Shapes smaller than this were almost certainly a click rather than a drag.
+const isDegenerate = (element: WhiteboardElement) => {
+  switch (element.type) {
+    case 'pen':
+    case 'highlighter':
+      return element.points.length < 2;
+    case 'line':
+    case 'arrow':
+      return Math.hypot(element.end.x - element.start.x, element.end.y - element.start.y) < 2;
+    case 'rectangle':
+    case 'ellipse':
+      return element.width < 2 && element.height < 2;
+    case 'text':
+      return !element.text.trim();
+    case 'image':
+      return false;
+  }
+};
+
+export function Whiteboard({ roomId }: { roomId: string }) {
+  const { user, role } = useAuth();
+  const { room, elements, participants, others, loading, newId, applyChange, moveCursor } =
+    useWhiteboardRoom(roomId, user);
+  // Edits reach Firestore straight away; this tracks whether ours still need the autosave below.
+  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const saveChange = useCallback((change: ElementChange) => {
+    applyChange(change);
+    setHasUnsavedChanges(true);
+  }, [applyChange]);
+  const history = useWhiteboardHistory(roomId, saveChange);
+  const [nameDraft, setNameDraft] = useState<string | null>(null);
+  const router = useRouter();
   const [prompt, setPrompt] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
-  const [diagramUrl, setDiagramUrl] = useState<string | null>(null);
-  
-  const [paths, setPaths] = useState<Path[]>([]);
-  const [isDrawing, setIsDrawing] = useState(false);
+  const [diagramMode, setDiagramMode] = useState<DiagramMode>('editable');
+  const quota = useQuota(user?.uid, role);
+  const diagramQuota: QuotaKind = diagramMode === 'editable' ? 'text' : 'images';
+
+  const [tool, setTool] = useState<WhiteboardTool>('pen');
+  const [eraserMode, setEraserMode] = useState<EraserMode>('element');
+  const [color, setColor] = useState(COLORS[0]);
+  const [width, setWidth] = useState(3);
+
+  // The element being drawn; it's shared with the room once the pointer is lifted.
+  const [draft, setDraft] = useState<WhiteboardElement | null>(null);
+  const dragStartRef = useRef<Point | null>(null);
+  const [erasure, setErasure] = useState<Erasure | null>(null);
+  const [textEntry, setTextEntry] = useState<TextEntry | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [transform, setTransform] = useState<Transform | null>(null);
+  // The selected element as it looks mid-drag; saved when the pointer is lifted.
+  const [transformed, setTransformed] = useState<WhiteboardElement | null>(null);
+  // The lasso being drawn, then the selection it made once the pointer is lifted.
+  const [lasso, setLasso] = useState<Point[] | null>(null);
+  const [region, setRegion] = useState<PendingRegion | null>(null);
+  const regionQuestions = useRegionQuestions();
+  const [focusedQuestionId, setFocusedQuestionId] = useState<string | null>(null);
   const canvasRef = useRef<SVGSVGElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const shapesRef = useRef<SVGGElement>(null);
+  const {
+    view,
+    visible,
+    viewBox,
+    touchDown,
+    touchMove,
+    touchUp,
+    panBy,
+    zoomIn,
+    zoomOut,
+    resetZoom,
+    zoomToFit,
+    centerOn,
+  } = useWhiteboardView(canvasRef);
+  // A drag that moves the view: with the pan tool, the middle mouse button or while Space is held.
+  const panRef = useRef<{ pointerId: number; last: Point } | null>(null);
+  const [isPanning, setIsPanning] = useState(false);
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  // The pointer that started the current stroke, drag or erase; other pointers are ignored until it lifts.
+  const activePointerRef = useRef<number | null>(null);
+  const penSeenAtRef = useRef(0);
+
+  // Generating a diagram takes a while; by the time it's ready the board may have changed.
+  const latestRef = useRef(elements);
+  latestRef.current = elements;
 
   const { toast } = useToast();
 
+  const uid = user?.uid;
+
+  // Keep the board on the user's list, with its latest name and edit time, whoever changed it.
+  useEffect(() => {
+    if (!uid || !room) return;
+    rememberBoard(uid, roomId, room).catch((error) => console.error("Error saving whiteboard to list:", error));
+  }, [uid, roomId, room]);
+
+  // Autosave: once drawing pauses, keep a copy on this device and, if we changed anything, mark the board as edited.
+  useEffect(() => {
+    if (!uid || !room) return;
+    const timer = setTimeout(() => {
+      saveLocalBoard(uid, roomId, toWhiteboardDocument(room.name, elements));
+      if (hasUnsavedChanges) {
+        touchRoom(roomId).catch((error) => console.error("Error saving whiteboard:", error));
+        setHasUnsavedChanges(false);
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [uid, roomId, room, elements, hasUnsavedChanges]);
+
+  const commitName = () => {
+    if (uid && nameDraft !== null && nameDraft.trim() && nameDraft !== room?.name) {
+      renameBoard(uid, roomId, nameDraft).catch((error) => console.error("Error renaming whiteboard:", error));
+    }
+    setNameDraft(null);
+  };
+
+  const handleNameKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.currentTarget.blur();
+    } else if (e.key === 'Escape') {
+      setNameDraft(null);
+      e.currentTarget.blur();
+    }
+  };
+
+  // A board that's gone from Firestore can be brought back from the copy saved on this device.
+  const localCopy = useMemo(
+    () => (!loading && !room && uid ? loadLocalBoard(uid, roomId) : null),
+    [loading, room, uid, roomId]
+  );
+
+  const restoreLocalCopy = () => {
+    if (!uid || !localCopy) return;
+    const { id, saved } = createBoard(uid, localCopy.name, localCopy.elements);
+    saved
+      .then(() => removeLocalBoard(uid, roomId))
+      .catch((error) => console.error("Error restoring whiteboard:", error));
+    router.replace(`/whiteboard/${id}`);
+  };
+
+  const selected = selectedId ? elements.find(element => element.id === selectedId) ?? null : null;
+  const contentBounds = useMemo(() => unionBounds(elements.map(elementBounds)), [elements]);
+
+  const { undo, redo, run } = history;
+  useEffect(() => {
+    const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      // Leave undo and delete in text fields to the browser.
+      if (target.closest('input, textarea, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if ((key === 'delete' || key === 'backspace') && selected) {
+        e.preventDefault();
+        run({ before: [selected], after: [] });
+        setSelectedId(null);
+        return;
+      }
+      if (e.code === 'Space' && !target.closest('button')) {
+        // Stop the page scrolling as well.
+        e.preventDefault();
+        setSpaceHeld(true);
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey || e.altKey)) {
+        const pans: Record<string, [number, number]> = {
+          arrowleft: [-KEYBOARD_PAN_STEP, 0],
+          arrowright: [KEYBOARD_PAN_STEP, 0],
+          arrowup: [0, -KEYBOARD_PAN_STEP],
+          arrowdown: [0, KEYBOARD_PAN_STEP],
+        };
+        if (pans[key]) panBy(...pans[key]);
+        else if (key === '+' || key === '=') zoomIn();
+        else if (key === '-') zoomOut();
+        else if (key === '0') resetZoom();
+        else if (e.code === 'Digit1' && e.shiftKey) zoomToFit(contentBounds);
+        else return;
+        e.preventDefault();
+        return;
+      }
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    const handleKeyUp = (e: globalThis.KeyboardEvent) => {
+      if (e.code === 'Space') setSpaceHeld(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [undo, redo, run, selected, panBy, zoomIn, zoomOut, resetZoom, zoomToFit, contentBounds]);
+
+  const changeTool = (next: WhiteboardTool) => {
+    setTool(next);
+    if (next !== 'select') setSelectedId(null);
+    if (next !== 'lasso') setRegion(null);
+  };
+
   const handleGenerate = async () => {
-    if (!prompt.trim()) return;
+    if (!prompt.trim() || !user) return;
     setIsGenerating(true);
-    setDiagramUrl(null);
-    setPaths([]);
     try {
-      const result = await generateWhiteboardDiagram({ prompt });
-      setDiagramUrl(result.diagramDataUri);
+      const idToken = await user.getIdToken();
+      if (diagramMode === 'editable') {
+        const generated = await generateVectorDiagram({ prompt }, idToken);
+        if (generated.status === 'error') {
+          showGenerateError(generated.error);
+          return;
+        }
+        const shapes = layoutDiagram(generated.result, {
+          newId,
+          authorId: user?.uid ?? '',
+          color,
+          center: { x: visible.x + visible.width / 2, y: visible.y + visible.height / 2 },
+        });
+        history.run({ before: [], after: shapes });
+        setTool('select');
+        const bounds = unionBounds(shapes.map(elementBounds));
+        if (bounds && (bounds.width > visible.width || bounds.height > visible.height)) zoomToFit(bounds);
+        return;
+      }
+      const generated = await generateWhiteboardDiagram({ prompt }, idToken);
+      if (generated.status === 'error') {
+        showGenerateError(generated.error);
+        return;
+      }
+      const diagram = await compressDiagram(generated.result.diagramDataUri);
+      if (diagram.href.length > MAX_IMAGE_BYTES) {
+        throw new Error("The diagram is too large to share.");
+      }
+      const image: WhiteboardElement = {
+        id: newId(),
+        authorId: user?.uid ?? '',
+        createdAt: Date.now(),
+        type: 'image',
+        href: diagram.href,
+        alt: prompt,
+        ...fitInside(diagram.width, diagram.height, diagramArea(visible)),
+      };
+      history.run({ before: [], after: [image] });
+      // Select it so it can be moved into place straight away.
+      setTool('select');
+      setSelectedId(image.id);
     } catch (error) {
       console.error(error);
+      showGenerateError();
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const showGenerateError = (error?: AnswerError) => {
+    toast({
+      variant: "destructive",
+      title: error?.code === 'quota' ? "Usage limit reached" : "Failed to generate diagram",
+      description: error && error.code !== 'unknown'
+        ? error.message
+        : "There was an error generating the visual aid. Please try again.",
+    });
+  };
+
+  const handleImport = (file: WhiteboardImport) => {
+    if (file.kind === 'image') {
+      if (file.href.length > MAX_IMAGE_BYTES) {
+        toast({
+          variant: "destructive",
+          title: "Import failed",
+          description: "This picture is too large to share on the whiteboard.",
+        });
+        return;
+      }
+      const image: WhiteboardElement = {
+        id: newId(),
+        authorId: user?.uid ?? '',
+        createdAt: Date.now(),
+        type: 'image',
+        href: file.href,
+        alt: file.alt,
+        ...fitInside(file.width, file.height, diagramArea(visible)),
+      };
+      history.run({ before: [], after: [image] });
+      setTool('select');
+      setSelectedId(image.id);
+      return;
+    }
+    // The room would refuse pictures this big, after they'd already been added to the undo history,
+    // so they're left out up front.
+    const elements = file.document.elements.filter(
+      element => element.type !== 'image' || element.href.length <= MAX_IMAGE_BYTES
+    );
+    const rejected = file.document.elements.length - elements.length;
+    if (rejected) {
       toast({
         variant: "destructive",
-        title: "Failed to generate diagram",
-        description: "There was an error generating the visual aid. Please try again.",
+        title: rejected === 1 ? "A picture was left out" : `${rejected} pictures were left out`,
+        description: elements.length
+          ? "Pictures that large can't be shared on the whiteboard. Everything else was imported."
+          : "Pictures that large can't be shared on the whiteboard, so nothing was imported.",
       });
-    } finally {
-      setIsGenerating(false);
     }
+    // Imported elements keep their positions and order but get new ids, so importing twice makes two copies.
+    const now = Date.now();
+    const imported = elements.map((element, i) => ({
+      ...element,
+      id: newId(),
+      authorId: user?.uid ?? '',
+      createdAt: now + i,
+    }));
+    if (!imported.length) return;
+    history.run({ before: [], after: imported });
+    zoomToFit(unionBounds(imported.map(elementBounds)));
   };
 
-  const getCoordinates = (event: MouseEvent<SVGSVGElement>): { x: number; y: number } | null => {
+  const getCoordinates = (event: { clientX: number; clientY: number }): Point | null => {
     if (!canvasRef.current) return null;
     const svg = canvasRef.current;
     const point = svg.createSVGPoint();
@@ -60,107 +480,633 @@ export function Whiteboard() {
     return null;
   };
 
-  const handleMouseDown = (e: MouseEvent<SVGSVGElement>) => {
-    if (diagramUrl || e.button !== 0) return;
-    setIsDrawing(true);
+  const newElementBase = () => ({
+    id: newId(),
+    authorId: user?.uid ?? '',
+    createdAt: Date.now(),
+    stroke: color,
+    strokeWidth: width,
+  });
+
+  const eraseAt = (point: Point, current: Erasure): Erasure => {
+    const radius = eraserRadius(width);
+    const removed = new Map(current.removed);
+    let added = current.added;
+    for (const element of visibleElements(current)) {
+      // Diagrams are usually drawn over, so erasing notes shouldn't take them too; delete them with the select tool.
+      if (element.type === 'image' || !hitTest(element, point, radius)) continue;
+      const isFragment = added.includes(element);
+      let fragments: WhiteboardElement[] = [];
+      if (eraserMode === 'partial' && (element.type === 'pen' || element.type === 'highlighter')) {
+        const runs = eraseFromFreehand(element, point, radius);
+        if (!runs) continue;
+        fragments = runs
+          .filter(run => run.length > 1)
+          .map(points => ({ ...element, id: newId(), points }));
+      }
+      if (isFragment) {
+        added = added.filter(fragment => fragment !== element);
+      } else {
+        removed.set(element.id, element);
+      }
+      added = [...added, ...fragments];
+    }
+    return { removed, added };
+  };
+
+  const finishErasing = () => {
+    if (!erasure) return;
+    if (erasure.removed.size) {
+      history.run({ before: [...erasure.removed.values()], after: erasure.added });
+    }
+    setErasure(null);
+  };
+
+  // Screen pixels per board unit, for sizing the text box to match the zoom.
+  const screenScale = () => canvasRef.current?.getScreenCTM()?.a ?? 1;
+
+  const commitText = () => {
+    const editing = textEntry?.editing;
+    if (editing) {
+      const text = textEntry.value.trim();
+      if (text !== editing.text) {
+        history.run({ before: [editing], after: text ? [{ ...editing, text }] : [] });
+      }
+    } else if (textEntry?.value.trim()) {
+      const fontSize = textFontSize(width);
+      history.run({
+        before: [],
+        after: [{
+          ...newElementBase(),
+          type: 'text',
+          // The text box's top-left sits at the click, so put the baseline one line below it.
+          x: textEntry.point.x,
+          y: textEntry.point.y + fontSize * 0.8,
+          text: textEntry.value.trim(),
+          fontSize,
+        }],
+      });
+    }
+    setTextEntry(null);
+  };
+
+  const handleTextKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitText();
+    } else if (e.key === 'Escape') {
+      setTextEntry(null);
+    }
+  };
+
+  // Palm rejection: while a pen is in use, touches are the side of the hand rather than a finger.
+  const isPalm = (e: PointerEvent<SVGSVGElement>) => {
+    if (e.pointerType === 'pen') {
+      penSeenAtRef.current = Date.now();
+      return false;
+    }
+    return e.pointerType === 'touch' && Date.now() - penSeenAtRef.current < PALM_REJECTION_MS;
+  };
+
+  // Pen pressure, for pens that report it; mice and fingers draw at the chosen width.
+  const strokePoint = (e: PointerEvent<SVGSVGElement>, point: Point): StrokePoint =>
+    e.pointerType === 'pen' && e.pressure > 0 ? { ...point, pressure: e.pressure } : point;
+
+  // Drops whatever was being drawn without saving it, e.g. when a second finger turns a stroke into a pinch.
+  const cancelDrawing = () => {
+    activePointerRef.current = null;
+    panRef.current = null;
+    setIsPanning(false);
+    setDraft(null);
+    dragStartRef.current = null;
+    setErasure(null);
+    setTransform(null);
+    setTransformed(null);
+    setLasso(null);
+  };
+
+  const handlePointerDown = (e: PointerEvent<SVGSVGElement>) => {
+    if (isPalm(e)) return;
+    if (touchDown(e)) {
+      cancelDrawing();
+      return;
+    }
+    if (activePointerRef.current === null && (e.button === 1 || (e.button === 0 && (tool === 'pan' || spaceHeld)))) {
+      e.preventDefault();
+      activePointerRef.current = e.pointerId;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      panRef.current = { pointerId: e.pointerId, last: { x: e.clientX, y: e.clientY } };
+      setIsPanning(true);
+      return;
+    }
+    if (e.button !== 0 || activePointerRef.current !== null) return;
     const coords = getCoordinates(e);
-    if (coords) {
-      setPaths([...paths, { points: [coords], stroke: '#0a0a0a', strokeWidth: 3 }]);
+    if (!coords) return;
+    const point = { x: coords.x, y: coords.y };
+    activePointerRef.current = e.pointerId;
+    // Keep receiving moves if the pointer leaves the board mid-stroke.
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    switch (tool) {
+      case 'select': {
+        const corner = (e.target as Element).getAttribute('data-handle') as Corner | null;
+        if (corner && selected) {
+          setTransform({ original: selected, start: point, corner });
+          break;
+        }
+        // Topmost first.
+        const hit = [...elements].reverse().find(element => hitTest(element, point, 4));
+        setSelectedId(hit?.id ?? null);
+        if (hit) setTransform({ original: hit, start: point });
+        break;
+      }
+      case 'pen':
+      case 'highlighter':
+        setDraft({ ...newElementBase(), type: tool, points: [strokePoint(e, point)] });
+        break;
+      case 'line':
+      case 'arrow':
+        setDraft({ ...newElementBase(), type: tool, start: point, end: point });
+        break;
+      case 'rectangle':
+      case 'ellipse':
+        dragStartRef.current = point;
+        setDraft({ ...newElementBase(), type: tool, ...boxFromCorners(point, point) });
+        break;
+      case 'eraser':
+        setErasure(eraseAt(point, { removed: new Map(), added: [] }));
+        break;
+      case 'lasso':
+        setRegion(null);
+        setLasso([point]);
+        break;
+      case 'text': {
+        // Clicking elsewhere while typing saves the text that was being typed.
+        e.preventDefault();
+        activePointerRef.current = null;
+        commitText();
+        const bounds = containerRef.current?.getBoundingClientRect();
+        if (!bounds) return;
+        setTextEntry({
+          point,
+          left: e.clientX - bounds.left,
+          top: e.clientY - bounds.top,
+          fontSize: textFontSize(width) * screenScale(),
+          value: '',
+        });
+        break;
+      }
     }
   };
 
-  const handleMouseMove = (e: MouseEvent<SVGSVGElement>) => {
-    if (!isDrawing || !paths.length) return;
+  const handlePointerMove = (e: PointerEvent<SVGSVGElement>) => {
+    if (isPalm(e) || touchMove(e)) return;
     const coords = getCoordinates(e);
-    if (coords) {
-      const lastPath = paths[paths.length - 1];
-      lastPath.points.push(coords);
-      setPaths([...paths.slice(0, -1), lastPath]);
+    if (!coords) return;
+    const point = { x: coords.x, y: coords.y };
+    if (e.pointerType !== 'touch') moveCursor(point);
+    if (e.pointerId !== activePointerRef.current) return;
+
+    const pan = panRef.current;
+    if (pan) {
+      // Dragging moves the board with the pointer, so the view goes the other way.
+      panBy(pan.last.x - e.clientX, pan.last.y - e.clientY);
+      pan.last = { x: e.clientX, y: e.clientY };
+      return;
+    }
+    if (erasure) {
+      setErasure(eraseAt(point, erasure));
+      return;
+    }
+    if (lasso) {
+      setLasso([...lasso, point]);
+      return;
+    }
+    if (transform) {
+      setTransformed(
+        transform.corner
+          ? resizeElement(transform.original, transform.corner, point)
+          : translateElement(transform.original, point.x - transform.start.x, point.y - transform.start.y)
+      );
+      return;
+    }
+    if (!draft) return;
+    switch (draft.type) {
+      case 'pen':
+      case 'highlighter':
+        setDraft({ ...draft, points: [...draft.points, strokePoint(e, point)] });
+        break;
+      case 'line':
+      case 'arrow':
+        setDraft({ ...draft, end: point });
+        break;
+      case 'rectangle':
+      case 'ellipse':
+        if (dragStartRef.current) {
+          setDraft({ ...draft, ...boxFromCorners(dragStartRef.current, point) });
+        }
+        break;
+    }
+  };
+
+  const finishDrawing = () => {
+    activePointerRef.current = null;
+    panRef.current = null;
+    setIsPanning(false);
+    if (draft && !isDegenerate(draft)) {
+      history.run({ before: [], after: [draft] });
+    }
+    setDraft(null);
+    dragStartRef.current = null;
+    finishErasing();
+    if (transform && transformed) {
+      history.run({ before: [transform.original], after: [transformed] });
+    }
+    setTransform(null);
+    setTransformed(null);
+    if (lasso) finishLasso(lasso);
+  };
+
+  // Offers to ask about the lassoed part of the board, as long as something was drawn there.
+  const finishLasso = (outline: Point[]) => {
+    setLasso(null);
+    const bounds = outlineBounds(outline);
+    const container = containerRef.current?.getBoundingClientRect();
+    const ctm = canvasRef.current?.getScreenCTM();
+    if (outline.length < 3 || !container || !ctm) return;
+    if (!elements.some(element => intersects(elementBounds(element), bounds))) {
+      toast({
+        title: "Nothing selected",
+        description: "Draw the lasso around some of your work to ask the tutor about it.",
+      });
+      return;
     }
+    // Just below the selection, kept inside the board.
+    setRegion({
+      outline,
+      left: Math.max(0, Math.min(ctm.a * bounds.x + ctm.e - container.left, container.width - ASK_BAR_WIDTH)),
+      top: Math.min(ctm.d * (bounds.y + bounds.height) + ctm.f - container.top, container.height - 96),
+    });
+  };
+
+  const askAboutRegion = async (label: string, question: string) => {
+    const shapes = shapesRef.current;
+    if (!region || !shapes) return;
+    setRegion(null);
+    try {
+      const snapshot = await exportRegionImage(shapes, region.outline, REGION_IMAGE_DIMENSION);
+      const id = regionQuestions.ask({ outline: region.outline, bounds: outlineBounds(region.outline), snapshot, label, question });
+      setFocusedQuestionId(id);
+    } catch (error) {
+      console.error(error);
+      toast({
+        variant: "destructive",
+        title: "Couldn't ask the tutor",
+        description: "The selection couldn't be captured. Please try again.",
+      });
+    }
+  };
+
+  const showQuestionOnBoard = (id: string) => {
+    const question = regionQuestions.questions.find(other => other.id === id);
+    if (!question) return;
+    setFocusedQuestionId(id);
+    zoomToFit(question.bounds);
+  };
+
+  const removeQuestion = (id: string) => {
+    regionQuestions.remove(id);
+    if (focusedQuestionId === id) setFocusedQuestionId(null);
   };
 
-  const handleMouseUp = () => setIsDrawing(false);
-  const handleMouseLeave = () => setIsDrawing(false);
+  const handlePointerUp = (e: PointerEvent<SVGSVGElement>) => {
+    if (touchUp(e) || e.pointerId !== activePointerRef.current) return;
+    finishDrawing();
+  };
+
+  const handlePointerCancel = (e: PointerEvent<SVGSVGElement>) => {
+    touchUp(e);
+    if (e.pointerId === activePointerRef.current) cancelDrawing();
+  };
+
+  // Double-clicking text with the select or text tool edits it in place.
+  const handleDoubleClick = (e: MouseEvent<SVGSVGElement>) => {
+    if (tool !== 'select' && tool !== 'text') return;
+    const point = getCoordinates(e);
+    const container = containerRef.current?.getBoundingClientRect();
+    const ctm = canvasRef.current?.getScreenCTM();
+    if (!point || !container || !ctm) return;
+    const hit = [...elements].reverse().find(element => element.type === 'text' && hitTest(element, point, 4));
+    if (hit?.type !== 'text') return;
+    e.preventDefault();
+    cancelDrawing();
+    setSelectedId(null);
+    // The box's top-left goes where new text would have been clicked to put this baseline.
+    const top = { x: hit.x, y: hit.y - hit.fontSize * 0.8 };
+    setTextEntry({
+      point: top,
+      left: ctm.a * top.x + ctm.e - container.left,
+      top: ctm.d * top.y + ctm.f - container.top,
+      fontSize: hit.fontSize * ctm.a,
+      value: hit.text,
+      editing: hit,
+    });
+  };
 
-  const pathData = (path: Path) => {
-    return path.points.reduce((acc, p, i) => {
-        if (i === 0) return `M ${p.x.toFixed(2)} ${p.y.toFixed(2)}`;
-        return `${acc} L ${p.x.toFixed(2)} ${p.y.toFixed(2)}`;
-    }, '');
+  const handlePointerLeave = (e: PointerEvent<SVGSVGElement>) => {
+    if (e.pointerType !== 'touch') moveCursor(null);
   };
-  
+
   const clearWhiteboard = () => {
-    setPaths([]);
-    setDiagramUrl(null);
-    setPrompt('');
+    setSelectedId(null);
+    history.run({ before: latestRef.current, after: [] });
+  };
+
+  function visibleElements(pending: Erasure | null = erasure): WhiteboardElement[] {
+    if (!pending) return elements;
+    return [...elements.filter(element => !pending.removed.has(element.id)), ...pending.added]
+      .sort((a, b) => a.createdAt - b.createdAt);
   }
 
-  return (
-    <div className="grid lg:grid-cols-3 gap-6">
-      <Card className="lg:col-span-1 h-fit">
+  const shownElements = [
+    ...visibleElements()
+      .filter(element => element.id !== textEntry?.editing?.id)
+      .map(element => (transformed?.id === element.id ? transformed : element)),
+    ...(draft ? [draft] : []),
+  ];
+  const shownSelection = transformed ?? selected;
+  const shownLasso = lasso ?? region?.outline;
+
+  if (!loading && !room) {
+    return (
+      <Card className="max-w-md mx-auto">
         <CardHeader>
-          <CardTitle>AI Diagram Generator</CardTitle>
-          <CardDescription>Describe a concept, and the AI will generate a diagram for you.</CardDescription>
+          <CardTitle>Whiteboard not found</CardTitle>
+          <CardDescription>
+            This whiteboard doesn&apos;t exist any more or its link is incomplete.
+            {localCopy && ' A copy was saved on this device, which you can restore as a new board.'}
+          </CardDescription>
         </CardHeader>
-        <CardContent className="space-y-4">
-          <form onSubmit={(e) => { e.preventDefault(); handleGenerate(); }} className="space-y-4">
-            <Input 
-              value={prompt}
-              onChange={(e) => setPrompt(e.target.value)}
-              placeholder="e.g., The water cycle"
-              disabled={isGenerating}
-            />
-            <Button type="submit" disabled={isGenerating || !prompt.trim()} className="w-full">
-              {isGenerating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Zap className="mr-2 h-4 w-4" />}
-              Generate Diagram
+        <CardContent className="space-y-2">
+          {localCopy && (
+            <Button className="w-full" onClick={restoreLocalCopy}>
+              Restore &ldquo;{localCopy.name}&rdquo;
             </Button>
-          </form>
-          <Button variant="outline" onClick={clearWhiteboard} className="w-full">
-            <Eraser className="mr-2 h-4 w-4" />
-            Clear Whiteboard
+          )}
+          <Button asChild variant={localCopy ? 'outline' : 'default'} className="w-full">
+            <Link href="/whiteboard">Back to your whiteboards</Link>
           </Button>
         </CardContent>
       </Card>
+    );
+  }
 
-      <Card className="lg:col-span-2">
-        <CardContent className="p-2 h-[60vh] lg:h-[75vh]">
-          <div className="w-full h-full border rounded-lg overflow-hidden relative bg-white shadow-inner">
-            {diagramUrl && (
-              <Image src={diagramUrl} alt={prompt || "Generated Diagram"} layout="fill" objectFit="contain" />
-            )}
-            <svg
-              ref={canvasRef}
-              className={cn("w-full h-full absolute top-0 left-0", diagramUrl ? 'cursor-not-allowed' : 'cursor-crosshair')}
-              onMouseDown={handleMouseDown}
-              onMouseMove={handleMouseMove}
-              onMouseUp={handleMouseUp}
-              onMouseLeave={handleMouseLeave}
-              viewBox="0 0 800 600"
-              preserveAspectRatio="xMidYMid meet"
-            >
-              <rect width="100%" height="100%" fill="transparent" />
-              {paths.map((path, i) => (
-                <path
-                  key={i}
-                  d={pathData(path)}
-                  stroke={path.stroke}
-                  strokeWidth={path.strokeWidth}
-                  fill="none"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button asChild variant="ghost" size="icon" className="shrink-0">
+          <Link href="/whiteboard" aria-label="All whiteboards">
+            <ArrowLeft />
+          </Link>
+        </Button>
+        <Input
+          value={nameDraft ?? room?.name ?? ''}
+          onChange={e => setNameDraft(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={handleNameKeyDown}
+          disabled={!room}
+          className="h-9 max-w-sm border-transparent text-lg font-semibold shadow-none hover:border-input focus-visible:border-input"
+          aria-label="Whiteboard name"
+        />
+        <span className="shrink-0 text-xs text-muted-foreground">
+          {hasUnsavedChanges ? 'Saving…' : room ? 'All changes saved' : ''}
+        </span>
+        <div className="ml-auto">
+          <WhiteboardFileMenu
+            name={room?.name ?? ''}
+            elements={elements}
+            shapesRef={shapesRef}
+            onImport={handleImport}
+          />
+        </div>
+      </div>
+      <div className="grid lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-1 space-y-6">
+          <Card className="h-fit">
+            <CardHeader>
+              <CardTitle>AI Diagram Generator</CardTitle>
+              <CardDescription>Describe a concept, and the AI will generate a diagram for you.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-1 rounded-md bg-muted p-1" role="radiogroup" aria-label="Diagram type">
+                {(['editable', 'picture'] as const).map(mode => (
+                  <Button
+                    key={mode}
+                    type="button"
+                    variant={diagramMode === mode ? 'secondary' : 'ghost'}
+                    size="sm"
+                    className={cn('h-7', diagramMode === mode && 'bg-background shadow-sm')}
+                    onClick={() => setDiagramMode(mode)}
+                    role="radio"
+                    aria-checked={diagramMode === mode}
+                    disabled={isGenerating}
+                  >
+                    {mode === 'editable' ? 'Editable' : 'Picture'}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {diagramMode === 'editable'
+                  ? 'Drawn with shapes and text you can move and edit. Double-click a label to change it.'
+                  : 'An illustration from an image model, placed on the board as a picture.'}
+              </p>
+              {quota && (
+                <p className={cn('text-xs', quota[diagramQuota] === 0 ? 'text-destructive' : 'text-muted-foreground')}>
+                  {quotaLeftLabel(diagramQuota, quota[diagramQuota])}
+                </p>
+              )}
+              <form onSubmit={(e) => { e.preventDefault(); handleGenerate(); }} className="space-y-4">
+                <Input 
+                  value={prompt}
+                  onChange={(e) => setPrompt(e.target.value)}
+                  placeholder="e.g., The water cycle"
+                  disabled={isGenerating}
                 />
-              ))}
-            </svg>
-            {(isGenerating || (!diagramUrl && paths.length === 0)) && (
-                <div className="absolute inset-0 flex items-center justify-center pointer-events-none bg-white/50">
-                    <div className="text-center text-muted-foreground p-4">
-                        {isGenerating ? 'Generating your diagram...' : 'Start drawing or generate a diagram.'}
+                <Button type="submit" disabled={isGenerating || !prompt.trim()} className="w-full">
+                  {isGenerating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Zap className="mr-2 h-4 w-4" />}
+                  Generate Diagram
+                </Button>
+              </form>
+              <Button variant="outline" onClick={clearWhiteboard} className="w-full">
+                <Eraser className="mr-2 h-4 w-4" />
+                Clear Whiteboard
+              </Button>
+              <RoomPresence roomId={roomId} participants={participants} currentUid={user?.uid} />
+            </CardContent>
+          </Card>
+          <RegionQuestionPanel
+            questions={regionQuestions.questions}
+            focusedId={focusedQuestionId}
+            onFocus={showQuestionOnBoard}
+            onRetry={regionQuestions.retry}
+            onRemove={removeQuestion}
+          />
+        </div>
+
+        <Card className="lg:col-span-2">
+          <CardContent className="p-2 h-[60vh] lg:h-[75vh]">
+            <div className="flex flex-col w-full h-full border rounded-lg overflow-hidden bg-white shadow-inner">
+              <WhiteboardToolbar
+                tool={tool}
+                onToolChange={changeTool}
+                eraserMode={eraserMode}
+                onEraserModeChange={setEraserMode}
+                color={color}
+                onColorChange={setColor}
+                width={width}
+                onWidthChange={setWidth}
+                onUndo={undo}
+                onRedo={redo}
+                canUndo={history.canUndo}
+                canRedo={history.canRedo}
+                zoom={view.zoom}
+                onZoomIn={zoomIn}
+                onZoomOut={zoomOut}
+                onResetZoom={resetZoom}
+                onZoomToFit={() => zoomToFit(contentBounds)}
+              />
+              <div ref={containerRef} className="flex-1 relative">
+                <svg
+                  ref={canvasRef}
+                  className={cn(
+                    "w-full h-full absolute top-0 left-0 touch-none",
+                    isPanning ? 'cursor-grabbing'
+                      : tool === 'pan' || spaceHeld ? 'cursor-grab'
+                      : tool === 'select' ? 'cursor-default' : tool === 'text' ? 'cursor-text' : tool === 'eraser' ? 'cursor-cell' : 'cursor-crosshair'
+                  )}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onPointerCancel={handlePointerCancel}
+                  onPointerLeave={handlePointerLeave}
+                  onDoubleClick={handleDoubleClick}
+                  viewBox={viewBox}
+                  preserveAspectRatio="xMidYMid meet"
+                >
+                  <defs>
+                    <pattern id="whiteboard-grid" width={24} height={24} patternUnits="userSpaceOnUse">
+                      <circle cx={1} cy={1} r={1} fill="#e5e7eb" />
+                    </pattern>
+                  </defs>
+                  {/* Oversized so it also fills the margins when the board's shape doesn't match the view's. */}
+                  <rect
+                    x={visible.x - visible.width}
+                    y={visible.y - visible.height}
+                    width={visible.width * 3}
+                    height={visible.height * 3}
+                    fill="url(#whiteboard-grid)"
+                  />
+                  <g ref={shapesRef}>
+                    {shownElements.map(element => (
+                      <ElementShape key={element.id} element={element} />
+                    ))}
+                  </g>
+                  {/* Questions asked about parts of the board: numbered like their answers, which clicking a number shows. */}
+                  {regionQuestions.questions.map((question, i) => {
+                    const focused = question.id === focusedQuestionId;
+                    const radius = 10 / view.zoom;
+                    return (
+                      <g key={question.id}>
+                        <polygon
+                          points={question.outline.map(({ x, y }) => `${x},${y}`).join(' ')}
+                          fill={focused ? 'hsl(var(--primary) / 0.08)' : 'none'}
+                          stroke="hsl(var(--primary))"
+                          strokeOpacity={focused ? 1 : 0.4}
+                          strokeWidth={1.5}
+                          strokeDasharray="6 4"
+                          vectorEffect="non-scaling-stroke"
+                          pointerEvents="none"
+                        />
+                        <g
+                          className="cursor-pointer"
+                          onPointerDown={e => {
+                            e.stopPropagation();
+                            setFocusedQuestionId(question.id);
+                          }}
+                        >
+                          <circle cx={question.bounds.x} cy={question.bounds.y} r={radius} fill="hsl(var(--primary))" />
+                          <text
+                            x={question.bounds.x}
+                            y={question.bounds.y}
+                            fontSize={radius * 1.2}
+                            textAnchor="middle"
+                            dominantBaseline="central"
+                            fill="hsl(var(--primary-foreground))"
+                          >
+                            {i + 1}
+                          </text>
+                        </g>
+                      </g>
+                    );
+                  })}
+                  {shownLasso && (
+                    <polygon
+                      points={shownLasso.map(({ x, y }) => `${x},${y}`).join(' ')}
+                      fill="hsl(var(--primary) / 0.08)"
+                      stroke="hsl(var(--primary))"
+                      strokeWidth={1.5}
+                      strokeDasharray="6 4"
+                      vectorEffect="non-scaling-stroke"
+                      pointerEvents="none"
+                    />
+                  )}
+                  {tool === 'select' && shownSelection && (
+                    <SelectionFrame bounds={elementBounds(shownSelection)} resizable={isResizable(shownSelection)} />
+                  )}
+                  {others.map(participant => participant.cursor && (
+                    <RemoteCursor key={participant.uid} participant={participant} />
+                  ))}
+                </svg>
+                {textEntry && (
+                  <input
+                    autoFocus
+                    value={textEntry.value}
+                    onChange={e => setTextEntry({ ...textEntry, value: e.target.value })}
+                    onKeyDown={handleTextKeyDown}
+                    onBlur={commitText}
+                    className="absolute min-w-32 border border-dashed border-primary bg-transparent px-1 outline-none"
+                    style={{
+                      left: textEntry.left,
+                      top: textEntry.top,
+                      color: textEntry.editing?.stroke ?? color,
+                      fontSize: textEntry.fontSize,
+                    }}
+                    aria-label={textEntry.editing ? 'Edit text' : 'Text to add'}
+                  />
+                )}
+                {region && (
+                  <RegionAskBar
+                    left={region.left}
+                    top={region.top}
+                    onAsk={askAboutRegion}
+                    onCancel={() => setRegion(null)}
+                  />
+                )}
+                {(isGenerating || (!loading && shownElements.length === 0 && !textEntry)) && (
+                    <div className="absolute inset-0 flex items-center justify-center pointer-events-none bg-white/50">
+                        <div className="text-center text-muted-foreground p-4">
+                            {isGenerating ? 'Generating your diagram...' : 'Start drawing or generate a diagram.'}
+                        </div>
                     </div>
-                </div>
-            )}
-          </div>
-        </CardContent>
-      </Card>
+                )}
+                {elements.length > 0 && (
+                  <WhiteboardMinimap elements={shownElements} visible={visible} onNavigate={centerOn} />
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
     </div>
   );
 }
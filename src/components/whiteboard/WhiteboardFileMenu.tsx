@@ -0,0 +1,138 @@
+"use client";
+
+import { useRef, useState, ChangeEvent, RefObject } from 'react';
+import { Download, FileImage, FileJson, FileText, Loader2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { toWhiteboardDocument, serializeWhiteboardDocument, WhiteboardDocumentError } from '@/lib/whiteboard/document';
+import {
+  buildSvg,
+  downloadBlob,
+  exportBounds,
+  exportFilename,
+  exportPdf,
+  exportPng,
+  pngScale,
+  readWhiteboardFile,
+  WhiteboardImport,
+  PNG_SCALES,
+} from '@/lib/whiteboard/export';
+import type { Bounds, WhiteboardElement } from '@/lib/whiteboard/elements';
+
+interface WhiteboardFileMenuProps {
+  name: string;
+  elements: WhiteboardElement[];
+  // The board's rendered elements, which exports copy.
+  shapesRef: RefObject<SVGGElement | null>;
+  onImport: (file: WhiteboardImport) => void;
+}
+
+export function WhiteboardFileMenu({ name, elements, shapesRef, onImport }: WhiteboardFileMenuProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const area = exportBounds(elements);
+
+  const runExport = async (extension: string, render: (shapes: SVGGElement, area: Bounds) => Blob | Promise<Blob>) => {
+    const shapes = shapesRef.current;
+    if (!shapes || !area) return;
+    setIsExporting(true);
+    try {
+      downloadBlob(await render(shapes, area), exportFilename(name, extension));
+    } catch (error) {
+      console.error(error);
+      toast({
+        variant: "destructive",
+        title: "Export failed",
+        description: "The whiteboard couldn't be exported. Please try again.",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const exportSvg = () => runExport('svg', (shapes, area) =>
+    new Blob([buildSvg(shapes, area, { document: toWhiteboardDocument(name, elements) })], { type: 'image/svg+xml' })
+  );
+  const exportJson = () => runExport('json', () =>
+    new Blob([serializeWhiteboardDocument(toWhiteboardDocument(name, elements))], { type: 'application/json' })
+  );
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again.
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImport(await readWhiteboardFile(file));
+    } catch (error) {
+      console.error(error);
+      toast({
+        variant: "destructive",
+        title: "Import failed",
+        description: error instanceof WhiteboardDocumentError ? error.message : "The file couldn't be read.",
+      });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".svg,.json,image/svg+xml,application/json"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+      <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+        <Upload className="mr-2 h-4 w-4" />
+        Import
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={!area || isExporting}>
+            {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuItem onClick={exportSvg}>
+            <FileImage className="mr-2 h-4 w-4" />
+            <span>SVG</span>
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => runExport('pdf', (shapes, area) => exportPdf(shapes, area, elements))}>
+            <FileText className="mr-2 h-4 w-4" />
+            <span>PDF (A4 pages)</span>
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={exportJson}>
+            <FileJson className="mr-2 h-4 w-4" />
+            <span>JSON (for importing later)</span>
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">PNG</DropdownMenuLabel>
+          {area && PNG_SCALES.map(scale => {
+            const fitted = pngScale(area, scale);
+            return (
+              <DropdownMenuItem key={scale} onClick={() => runExport('png', (shapes, area) => exportPng(shapes, area, scale))}>
+                <FileImage className="mr-2 h-4 w-4" />
+                <span>{scale}×</span>
+                <span className="ml-auto text-xs tabular-nums text-muted-foreground">
+                  {Math.round(area.width * fitted)} × {Math.round(area.height * fitted)}
+                </span>
+              </DropdownMenuItem>
+            );
+          })}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+"use client";
+
+import { useState, FormEvent } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { Copy, Loader2, MoreHorizontal, Pencil, Plus, Presentation, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useWhiteboardBoards } from '@/hooks/use-whiteboard-boards';
+import { useAuth } from '@/lib/firebase/auth';
+import { UNTITLED_BOARD } from '@/lib/firebase/whiteboard-rooms';
+import type { WhiteboardSummary } from '@/lib/firebase/whiteboard-boards';
+
+// The whiteboards the user made or joined, most recently edited first.
+export function WhiteboardList() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const { toast } = useToast();
+  const { boards, loading, create, rename, duplicate, remove } = useWhiteboardBoards(user?.uid);
+  const [renaming, setRenaming] = useState<WhiteboardSummary | null>(null);
+  const [renameTitle, setRenameTitle] = useState('');
+  const [deleting, setDeleting] = useState<WhiteboardSummary | null>(null);
+  const [duplicatingId, setDuplicatingId] = useState<string | null>(null);
+
+  const handleNew = () => {
+    const id = create(UNTITLED_BOARD);
+    if (id) router.push(`/whiteboard/${id}`);
+  };
+
+  const startRename = (board: WhiteboardSummary) => {
+    setRenameTitle(board.name);
+    setRenaming(board);
+  };
+
+  const handleRename = (e: FormEvent) => {
+    e.preventDefault();
+    if (renaming && renameTitle.trim()) {
+      rename(renaming.id, renameTitle);
+    }
+    setRenaming(null);
+  };
+
+  const handleDuplicate = async (board: WhiteboardSummary) => {
+    setDuplicatingId(board.id);
+    const id = await duplicate(board);
+    setDuplicatingId(null);
+    if (!id) {
+      toast({
+        variant: "destructive",
+        title: "Couldn't duplicate whiteboard",
+        description: "Check your connection and try again.",
+      });
+    }
+  };
+
+  const isOwn = (board: WhiteboardSummary) => board.createdBy === user?.uid;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">Whiteboards</h1>
+          <p className="text-sm text-muted-foreground">Boards you&apos;ve made or been invited to. Changes save automatically.</p>
+        </div>
+        <Button onClick={handleNew}>
+          <Plus className="mr-2 h-4 w-4" />
+          New whiteboard
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : boards.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center gap-4 py-12 text-center text-muted-foreground">
+            <Presentation className="h-10 w-10" />
+            <p>You don&apos;t have any whiteboards yet.</p>
+            <Button variant="outline" onClick={handleNew}>Start your first whiteboard</Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {boards.map(board => (
+            <Card key={board.id} className="relative transition-colors hover:bg-muted/50">
+              <CardHeader className="pr-12">
+                <CardTitle className="truncate text-base">
+                  <Link href={`/whiteboard/${board.id}`} className="after:absolute after:inset-0">
+                    {board.name || UNTITLED_BOARD}
+                  </Link>
+                </CardTitle>
+                <CardDescription className="flex items-center gap-2">
+                  <span>
+                    {board.updatedAt ? `Edited ${formatDistanceToNow(board.updatedAt, { addSuffix: true })}` : 'Not edited yet'}
+                  </span>
+                  {board.createdBy && !isOwn(board) && <Badge variant="secondary">Shared</Badge>}
+                  {duplicatingId === board.id && <Loader2 className="h-3 w-3 animate-spin" />}
+                </CardDescription>
+              </CardHeader>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="absolute right-3 top-3 z-10 h-8 w-8"
+                    aria-label={`Options for ${board.name}`}
+                  >
+                    <MoreHorizontal />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => startRename(board)}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    <span>Rename</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleDuplicate(board)} disabled={duplicatingId !== null}>
+                    <Copy className="mr-2 h-4 w-4" />
+                    <span>Duplicate</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => setDeleting(board)} className="text-destructive focus:text-destructive">
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    <span>{isOwn(board) ? 'Delete' : 'Remove from list'}</span>
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={renaming !== null} onOpenChange={open => !open && setRenaming(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Rename whiteboard</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleRename} className="space-y-4">
+            <Input
+              value={renameTitle}
+              onChange={e => setRenameTitle(e.target.value)}
+              aria-label="Whiteboard name"
+              autoFocus
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setRenaming(null)}>Cancel</Button>
+              <Button type="submit" disabled={!renameTitle.trim()}>Save</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleting !== null} onOpenChange={open => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{deleting && isOwn(deleting) ? 'Delete this whiteboard?' : 'Remove this whiteboard?'}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting && isOwn(deleting)
+                ? <>&ldquo;{deleting.name}&rdquo; will be permanently deleted for everyone it was shared with.</>
+                : <>&ldquo;{deleting?.name}&rdquo; will be taken off your list. You can open it again from its invite link.</>}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deleting) remove(deleting);
+                setDeleting(null);
+              }}
+            >
+              {deleting && isOwn(deleting) ? 'Delete' : 'Remove'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
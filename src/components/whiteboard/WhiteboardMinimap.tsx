@@ -0,0 +1,87 @@
+"use client";
+
+import { useRef, PointerEvent } from 'react';
+import { elementBounds, unionBounds, Bounds, Point, WhiteboardElement } from '@/lib/whiteboard/elements';
+import { ElementShape } from '@/components/whiteboard/ElementShape';
+
+const PADDING = 80;
+
+interface WhiteboardMinimapProps {
+  elements: WhiteboardElement[];
+  // The part of the board on screen, in world coordinates.
+  visible: Bounds;
+  onNavigate: (center: Point) => void;
+}
+
+/**
+ * A thumbnail of everything on the board with the visible area outlined. Clicking or dragging on it
+ * moves the view there.
+ */
+export function WhiteboardMinimap({ elements, visible, onNavigate }: WhiteboardMinimapProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  // The area shown is held still while dragging, or it would shift under the pointer as the view moves.
+  const frozenAreaRef = useRef<Bounds | null>(null);
+
+  const content = unionBounds([visible, ...elements.map(elementBounds)]) ?? visible;
+  const area = frozenAreaRef.current ?? {
+    x: content.x - PADDING,
+    y: content.y - PADDING,
+    width: content.width + PADDING * 2,
+    height: content.height + PADDING * 2,
+  };
+
+  const navigate = (e: PointerEvent<SVGSVGElement>) => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return;
+    const point = svg.createSVGPoint();
+    point.x = e.clientX;
+    point.y = e.clientY;
+    const world = point.matrixTransform(ctm.inverse());
+    onNavigate({ x: world.x, y: world.y });
+  };
+
+  const handlePointerDown = (e: PointerEvent<SVGSVGElement>) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    frozenAreaRef.current = area;
+    navigate(e);
+  };
+
+  const handlePointerMove = (e: PointerEvent<SVGSVGElement>) => {
+    if (frozenAreaRef.current) navigate(e);
+  };
+
+  const handlePointerUp = () => {
+    frozenAreaRef.current = null;
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      className="absolute bottom-2 right-2 h-24 w-32 cursor-pointer touch-none rounded border bg-white/90 shadow-sm"
+      viewBox={`${area.x} ${area.y} ${area.width} ${area.height}`}
+      preserveAspectRatio="xMidYMid meet"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      role="img"
+      aria-label="Board overview"
+    >
+      <g pointerEvents="none">
+        {elements.map(element => (
+          <ElementShape key={element.id} element={element} />
+        ))}
+      </g>
+      <rect
+        {...visible}
+        fill="rgba(37, 99, 235, 0.08)"
+        stroke="#2563eb"
+        strokeWidth={1.5}
+        vectorEffect="non-scaling-stroke"
+        pointerEvents="none"
+      />
+    </svg>
+  );
+}
@@ -0,0 +1,232 @@
+"use client";
+
+import type { ReactNode } from 'react';
+import {
+  Circle,
+  Eraser,
+  Hand,
+  Highlighter,
+  LassoSelect,
+  Maximize,
+  Minus,
+  MousePointer2,
+  MoveUpRight,
+  Pen,
+  Redo2,
+  Square,
+  Type,
+  Undo2,
+  ZoomIn,
+  ZoomOut,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { Slider } from '@/components/ui/slider';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+
+export type WhiteboardTool = 'select' | 'pan' | 'pen' | 'highlighter' | 'eraser' | 'line' | 'arrow' | 'rectangle' | 'ellipse' | 'text' | 'lasso';
+
+// 'element' removes whatever the eraser touches; 'partial' only cuts away the touched part of freehand strokes.
+export type EraserMode = 'element' | 'partial';
+
+const tools: { tool: WhiteboardTool; label: string; icon: ReactNode }[] = [
+  { tool: 'select', label: 'Select, move and resize', icon: <MousePointer2 /> },
+  { tool: 'pan', label: 'Pan (or hold Space)', icon: <Hand /> },
+  { tool: 'pen', label: 'Pen', icon: <Pen /> },
+  { tool: 'highlighter', label: 'Highlighter', icon: <Highlighter /> },
+  { tool: 'eraser', label: 'Eraser', icon: <Eraser /> },
+  { tool: 'line', label: 'Line', icon: <Minus className="-rotate-45" /> },
+  { tool: 'arrow', label: 'Arrow', icon: <MoveUpRight /> },
+  { tool: 'rectangle', label: 'Rectangle', icon: <Square /> },
+  { tool: 'ellipse', label: 'Ellipse', icon: <Circle /> },
+  { tool: 'text', label: 'Text', icon: <Type /> },
+  { tool: 'lasso', label: 'Ask the tutor about part of the board', icon: <LassoSelect /> },
+];
+
+export const COLORS = ['#0a0a0a', '#e11d48', '#f59e0b', '#16a34a', '#2563eb', '#9333ea'];
+export const MIN_WIDTH = 1;
+export const MAX_WIDTH = 16;
+
+interface WhiteboardToolbarProps {
+  tool: WhiteboardTool;
+  onToolChange: (tool: WhiteboardTool) => void;
+  eraserMode: EraserMode;
+  onEraserModeChange: (mode: EraserMode) => void;
+  color: string;
+  onColorChange: (color: string) => void;
+  width: number;
+  onWidthChange: (width: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  zoom: number;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onResetZoom: () => void;
+  onZoomToFit: () => void;
+}
+
+export function WhiteboardToolbar({
+  tool,
+  onToolChange,
+  eraserMode,
+  onEraserModeChange,
+  color,
+  onColorChange,
+  width,
+  onWidthChange,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  zoom,
+  onZoomIn,
+  onZoomOut,
+  onResetZoom,
+  onZoomToFit,
+}: WhiteboardToolbarProps) {
+  return (
+    <TooltipProvider>
+      <div className="flex flex-wrap items-center gap-2 border-b p-2">
+        <div className="flex items-center gap-1">
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onUndo} disabled={!canUndo} aria-label="Undo">
+                <Undo2 />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Undo (Ctrl+Z)</TooltipContent>
+          </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onRedo} disabled={!canRedo} aria-label="Redo">
+                <Redo2 />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Redo (Ctrl+Shift+Z)</TooltipContent>
+          </Tooltip>
+        </div>
+
+        <Separator orientation="vertical" className="h-6" />
+
+        <div className="flex items-center gap-1" role="toolbar" aria-label="Drawing tools">
+          {tools.map(({ tool: value, label, icon }) => (
+            <Tooltip key={value}>
+              <TooltipTrigger asChild>
+                <Button
+                  variant={tool === value ? 'secondary' : 'ghost'}
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => onToolChange(value)}
+                  aria-label={label}
+                  aria-pressed={tool === value}
+                >
+                  {icon}
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>{label}</TooltipContent>
+            </Tooltip>
+          ))}
+        </div>
+
+        {tool === 'eraser' && (
+          <div className="flex items-center gap-1 text-xs">
+            {(['element', 'partial'] as const).map(mode => (
+              <Button
+                key={mode}
+                variant={eraserMode === mode ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-7 px-2"
+                onClick={() => onEraserModeChange(mode)}
+                aria-pressed={eraserMode === mode}
+              >
+                {mode === 'element' ? 'Whole' : 'Partial'}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <Separator orientation="vertical" className="h-6" />
+
+        <div className="flex items-center gap-1" aria-label="Color">
+          {COLORS.map(swatch => (
+            <button
+              key={swatch}
+              type="button"
+              onClick={() => onColorChange(swatch)}
+              className={cn(
+                'h-6 w-6 rounded-full border-2',
+                color === swatch ? 'border-ring ring-2 ring-ring ring-offset-1' : 'border-transparent'
+              )}
+              style={{ backgroundColor: swatch }}
+              aria-label={`Color ${swatch}`}
+              aria-pressed={color === swatch}
+            />
+          ))}
+          <input
+            type="color"
+            value={color}
+            onChange={e => onColorChange(e.target.value)}
+            className="h-6 w-6 cursor-pointer rounded border-0 bg-transparent p-0"
+            aria-label="Custom color"
+          />
+        </div>
+
+        <Separator orientation="vertical" className="h-6" />
+
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">Width</span>
+          <Slider
+            value={[width]}
+            onValueChange={([value]) => onWidthChange(value)}
+            min={MIN_WIDTH}
+            max={MAX_WIDTH}
+            step={1}
+            className="w-24"
+            aria-label="Stroke width"
+          />
+          <span className="w-5 text-xs tabular-nums text-muted-foreground">{width}</span>
+        </div>
+
+        <Separator orientation="vertical" className="h-6" />
+
+        <div className="flex items-center gap-1" aria-label="Zoom">
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onZoomOut} aria-label="Zoom out">
+                <ZoomOut />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Zoom out (-)</TooltipContent>
+          </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-7 w-14 px-1 text-xs tabular-nums" onClick={onResetZoom}>
+                {Math.round(zoom * 100)}%
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Reset zoom (0)</TooltipContent>
+          </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onZoomIn} aria-label="Zoom in">
+                <ZoomIn />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Zoom in (+)</TooltipContent>
+          </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onZoomToFit} aria-label="Zoom to fit">
+                <Maximize />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Zoom to fit (Shift+1)</TooltipContent>
+          </Tooltip>
+        </div>
+      </div>
+    </TooltipProvider>
+  );
+}
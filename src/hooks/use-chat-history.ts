@@ -0,0 +1,38 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { addMessage as addStoredMessage, subscribeToMessages } from '@/lib/firebase/chat-history';
+import type { Message } from '@/components/chat/ChatMessage';
+
+export function useChatHistory(uid: string | undefined, conversationId: string | null) {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setMessages([]);
+    if (!uid || !conversationId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const unsubscribe = subscribeToMessages(uid, conversationId, (messages) => {
+      setMessages(messages);
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [uid, conversationId]);
+
+  // Takes the conversation explicitly so an answer lands where it was asked even if the user switched chats.
+  const addMessage = useCallback((targetConversationId: string, message: Message) => {
+    if (!uid) return;
+    // Not awaited: the listener picks the message up from the local cache right away,
+    // and Firestore syncs it whenever the device is back online.
+    addStoredMessage(uid, targetConversationId, message).catch((error) =>
+      console.error("Error saving chat message:", error)
+    );
+  }, [uid]);
+
+  return { messages, loading, addMessage };
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  createConversation,
+  deleteConversation,
+  migrateLocalHistory,
+  renameConversation,
+  saveConversationSummary,
+  setConversationPinned,
+  subscribeToConversations,
+  Conversation,
+} from '@/lib/firebase/chat-history';
+import type { ConversationSummary } from '@/ai/history';
+
+export function useConversations(uid: string | undefined) {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setConversations([]);
+    if (!uid) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const unsubscribe = subscribeToConversations(uid, (conversations) => {
+      setConversations(conversations);
+      setLoading(false);
+    });
+    migrateLocalHistory(uid).catch((error) =>
+      console.error("Error migrating local chat history:", error)
+    );
+
+    return () => unsubscribe();
+  }, [uid]);
+
+  const logError = (action: string) => (error: unknown) =>
+    console.error(`Error trying to ${action} conversation:`, error);
+
+  const create = useCallback((title: string): string | null => {
+    if (!uid) return null;
+    const { id, saved } = createConversation(uid, title);
+    saved.catch(logError("create"));
+    return id;
+  }, [uid]);
+
+  const rename = useCallback((conversationId: string, title: string) => {
+    if (!uid) return;
+    renameConversation(uid, conversationId, title).catch(logError("rename"));
+  }, [uid]);
+
+  const setPinned = useCallback((conversationId: string, pinned: boolean) => {
+    if (!uid) return;
+    setConversationPinned(uid, conversationId, pinned).catch(logError("pin"));
+  }, [uid]);
+
+  const saveSummary = useCallback((conversationId: string, summary: ConversationSummary) => {
+    if (!uid) return;
+    saveConversationSummary(uid, conversationId, summary).catch(logError("summarize"));
+  }, [uid]);
+
+  const remove = useCallback((conversationId: string) => {
+    if (!uid) return;
+    deleteConversation(uid, conversationId).catch(logError("delete"));
+  }, [uid]);
+
+  return { conversations, loading, create, rename, setPinned, saveSummary, remove };
+}
@@ -18,17 +18,20 @@ export function useLocalStorage<T>(key: string, initialValue: T): [T, Dispatch<S
 
   const [storedValue, setStoredValue] = useState<T>(readValue);
 
-  const setValue: Dispatch<SetStateAction<T>> = (value) => {
-    try {
-      const valueToStore = value instanceof Function ? value(storedValue) : value;
-      setStoredValue(valueToStore);
-      if (typeof window !== 'undefined') {
-        window.localStorage.setItem(key, JSON.stringify(valueToStore));
+  // Resolve functional updates against the latest state so async callers don't clobber each other.
+  const setValue: Dispatch<SetStateAction<T>> = useCallback((value) => {
+    setStoredValue((current) => {
+      const valueToStore = value instanceof Function ? value(current) : value;
+      try {
+        if (typeof window !== 'undefined') {
+          window.localStorage.setItem(key, JSON.stringify(valueToStore));
+        }
+      } catch (error) {
+        console.warn(`Error setting localStorage key "${key}":`, error);
       }
-    } catch (error) {
-      console.warn(`Error setting localStorage key "${key}":`, error);
-    }
-  };
+      return valueToStore;
+    });
+  }, [key]);
 
   useEffect(() => {
     setStoredValue(readValue());
@@ -0,0 +1,20 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { subscribeToUsage } from '@/lib/firebase/usage';
+import { currentUsage, remainingQuota, RemainingQuota, Usage } from '@/lib/quota';
+import type { Role } from '@/lib/roles';
+
+// What's left of the user's daily AI quota, kept up to date as they use it. Null until it's known.
+export function useQuota(uid: string | undefined, role: Role | null): RemainingQuota | null {
+  const [usage, setUsage] = useState<Partial<Usage> | undefined | null>(null);
+
+  useEffect(() => {
+    setUsage(null);
+    if (!uid) return;
+    return subscribeToUsage(uid, setUsage);
+  }, [uid]);
+
+  if (usage === null || role === null) return null;
+  return remainingQuota(currentUsage(usage, Date.now()), role);
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useState, useCallback, useRef } from 'react';
+import { requestError, streamFlow, FlowError } from '@/lib/flow-client';
+import type { answerAcademicQuestionFlow } from '@/ai/flows/answer-academic-question';
+import type { AnswerError } from '@/ai/errors';
+import type { Bounds, Point } from '@/lib/whiteboard/elements';
+import { authHeaders, useAuth } from '@/lib/firebase/auth';
+
+/** A question about part of the whiteboard, and the tutor's answer to it. */
+export interface RegionQuestion {
+  id: string;
+  // The lasso drawn around the work, and the box around it, in board coordinates.
+  outline: Point[];
+  bounds: Bounds;
+  // What was inside the lasso when the question was asked, as a JPEG data URI.
+  snapshot: string;
+  // The label shown in the panel, and the question sent with the snapshot.
+  label: string;
+  question: string;
+  answer: string;
+  status: 'answering' | 'done' | 'error';
+  error?: AnswerError;
+}
+
+export type NewRegionQuestion = Pick<RegionQuestion, 'outline' | 'bounds' | 'snapshot' | 'label' | 'question'>;
+
+const UNKNOWN_ERROR: AnswerError = {
+  code: 'unknown',
+  message: 'An unexpected error occurred while generating the answer.',
+};
+
+// Questions belong to this visit to the board; they're not shared with the room or saved.
+export function useRegionQuestions() {
+  const { user } = useAuth();
+  const [questions, setQuestions] = useState<RegionQuestion[]>([]);
+  const nextIdRef = useRef(1);
+  // Answers still coming in, so removing a question stops generating its answer.
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  const update = (id: string, change: Partial<RegionQuestion>) =>
+    setQuestions(current => current.map(question => (question.id === id ? { ...question, ...change } : question)));
+
+  const answer = useCallback(async ({ id, question, snapshot }: RegionQuestion) => {
+    update(id, { answer: '', status: 'answering', error: undefined });
+    const controller = new AbortController();
+    controllersRef.current.get(id)?.abort();
+    controllersRef.current.set(id, controller);
+    let partialAnswer = '';
+    try {
+      if (!user) throw new FlowError('Please log in to ask EduMentor.', 'UNAUTHENTICATED');
+      const result = await streamFlow<typeof answerAcademicQuestionFlow>({
+        url: '/api/answer',
+        headers: await authHeaders(user),
+        input: { question, images: [snapshot] },
+        signal: controller.signal,
+        onChunk: chunk => {
+          partialAnswer += chunk;
+          update(id, { answer: partialAnswer });
+        },
+      });
+      if (result.status === 'error') {
+        update(id, { status: 'error', error: result.error ?? UNKNOWN_ERROR });
+        return;
+      }
+      update(id, { answer: result.answer, status: 'done' });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error(error);
+      update(id, { status: 'error', error: requestError(error) });
+    } finally {
+      if (controllersRef.current.get(id) === controller) controllersRef.current.delete(id);
+    }
+  }, [user]);
+
+  const ask = useCallback((request: NewRegionQuestion): string => {
+    const question: RegionQuestion = { ...request, id: String(nextIdRef.current++), answer: '', status: 'answering' };
+    setQuestions(current => [...current, question]);
+    answer(question);
+    return question.id;
+  }, [answer]);
+
+  const retry = useCallback((id: string) => {
+    const question = questions.find(other => other.id === id);
+    if (question) answer(question);
+  }, [questions, answer]);
+
+  const remove = useCallback((id: string) => {
+    controllersRef.current.get(id)?.abort();
+    setQuestions(current => current.filter(question => question.id !== id));
+  }, []);
+
+  return { questions, ask, retry, remove };
+}
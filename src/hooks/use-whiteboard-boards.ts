@@ -0,0 +1,75 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  createBoard,
+  deleteBoard,
+  duplicateBoard,
+  listLocalBoards,
+  renameBoard,
+  subscribeToBoards,
+  WhiteboardSummary,
+} from '@/lib/firebase/whiteboard-boards';
+
+export function useWhiteboardBoards(uid: string | undefined) {
+  const [boards, setBoards] = useState<WhiteboardSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Boards saved on this device but missing from the synced list (e.g. created while offline) are shown too.
+  const localBoardsRef = useRef<WhiteboardSummary[]>([]);
+
+  useEffect(() => {
+    setBoards([]);
+    if (!uid) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    localBoardsRef.current = listLocalBoards(uid);
+    const unsubscribe = subscribeToBoards(uid, (synced) => {
+      const syncedIds = new Set(synced.map(board => board.id));
+      setBoards(
+        [...synced, ...localBoardsRef.current.filter(board => !syncedIds.has(board.id))]
+          .sort((a, b) => b.updatedAt - a.updatedAt)
+      );
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [uid]);
+
+  const logError = (action: string) => (error: unknown) =>
+    console.error(`Error trying to ${action} whiteboard:`, error);
+
+  const create = useCallback((name: string): string | null => {
+    if (!uid) return null;
+    const { id, saved } = createBoard(uid, name);
+    saved.catch(logError("create"));
+    return id;
+  }, [uid]);
+
+  const rename = useCallback((roomId: string, name: string) => {
+    if (!uid) return;
+    renameBoard(uid, roomId, name).catch(logError("rename"));
+  }, [uid]);
+
+  const duplicate = useCallback(async (board: WhiteboardSummary): Promise<string | null> => {
+    if (!uid) return null;
+    try {
+      return await duplicateBoard(uid, board);
+    } catch (error) {
+      logError("duplicate")(error);
+      return null;
+    }
+  }, [uid]);
+
+  const remove = useCallback((board: WhiteboardSummary) => {
+    if (!uid) return;
+    // Take it off the list straight away; boards only saved locally have no listener to do it.
+    localBoardsRef.current = localBoardsRef.current.filter(other => other.id !== board.id);
+    setBoards(current => current.filter(other => other.id !== board.id));
+    deleteBoard(uid, board).catch(logError("delete"));
+  }, [uid]);
+
+  return { boards, loading, create, rename, duplicate, remove };
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import type { ElementChange } from '@/lib/firebase/whiteboard-rooms';
+import type { WhiteboardElement } from '@/lib/whiteboard/elements';
+
+/**
+ * An edit described by what it replaced and what it replaced it with, so it can be applied in
+ * either direction. Drawing or inserting a diagram has no `before`, erasing has no (or a partial)
+ * `after`, moving or resizing has both, and a clear replaces everything with nothing.
+ */
+export interface WhiteboardCommand {
+  before: WhiteboardElement[];
+  after: WhiteboardElement[];
+}
+
+const MAX_HISTORY = 100;
+
+function toChange(from: WhiteboardElement[], to: WhiteboardElement[]): ElementChange {
+  const kept = new Set(to.map(element => element.id));
+  return {
+    remove: from.filter(element => !kept.has(element.id)).map(element => element.id),
+    put: to,
+  };
+}
+
+// Each participant has their own history, so undo only ever reverts your own edits.
+export function useWhiteboardHistory(roomId: string, applyChange: (change: ElementChange) => void) {
+  const [undoStack, setUndoStack] = useState<WhiteboardCommand[]>([]);
+  const [redoStack, setRedoStack] = useState<WhiteboardCommand[]>([]);
+
+  useEffect(() => {
+    setUndoStack([]);
+    setRedoStack([]);
+  }, [roomId]);
+
+  const run = useCallback((command: WhiteboardCommand) => {
+    applyChange(toChange(command.before, command.after));
+    setUndoStack(stack => [...stack.slice(1 - MAX_HISTORY), command]);
+    setRedoStack([]);
+  }, [applyChange]);
+
+  const undo = useCallback(() => {
+    const command = undoStack[undoStack.length - 1];
+    if (!command) return;
+    applyChange(toChange(command.after, command.before));
+    setUndoStack(stack => stack.slice(0, -1));
+    setRedoStack(stack => [...stack, command]);
+  }, [undoStack, applyChange]);
+
+  const redo = useCallback(() => {
+    const command = redoStack[redoStack.length - 1];
+    if (!command) return;
+    applyChange(toChange(command.before, command.after));
+    setRedoStack(stack => stack.slice(0, -1));
+    setUndoStack(stack => [...stack, command]);
+  }, [redoStack, applyChange]);
+
+  return { run, undo, redo, canUndo: undoStack.length > 0, canRedo: redoStack.length > 0 };
+}
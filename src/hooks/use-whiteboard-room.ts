@@ -0,0 +1,100 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { User } from 'firebase/auth';
+import {
+  applyElementChange,
+  leaveRoom,
+  newElementId,
+  participantColor,
+  subscribeToPresence,
+  subscribeToElements,
+  subscribeToRoom,
+  updatePresence,
+  ElementChange,
+  Participant,
+  WhiteboardRoom,
+  PRESENCE_HEARTBEAT_MS,
+} from '@/lib/firebase/whiteboard-rooms';
+import type { Point, WhiteboardElement } from '@/lib/whiteboard/elements';
+
+// Cursor positions are sent at most this often to keep Firestore writes down.
+const CURSOR_THROTTLE_MS = 100;
+
+export function useWhiteboardRoom(roomId: string, user: User | null) {
+  const [room, setRoom] = useState<WhiteboardRoom | null>(null);
+  const [elements, setElements] = useState<WhiteboardElement[]>([]);
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [loading, setLoading] = useState(true);
+  const cursorRef = useRef<Point | null>(null);
+  const cursorTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const uid = user?.uid;
+  const name = user?.displayName || user?.email || 'Guest';
+
+  useEffect(() => {
+    setRoom(null);
+    setElements([]);
+    setLoading(true);
+    const unsubscribeRoom = subscribeToRoom(roomId, (room) => {
+      setRoom(room);
+      setLoading(false);
+    });
+    const unsubscribeElements = subscribeToElements(roomId, setElements);
+    const unsubscribePresence = subscribeToPresence(roomId, setParticipants);
+
+    return () => {
+      unsubscribeRoom();
+      unsubscribeElements();
+      unsubscribePresence();
+    };
+  }, [roomId]);
+
+  const sendPresence = useCallback(() => {
+    if (!uid) return;
+    updatePresence(roomId, { uid, name, color: participantColor(uid), cursor: cursorRef.current }).catch((error) =>
+      console.error("Error updating whiteboard presence:", error)
+    );
+  }, [roomId, uid, name]);
+
+  useEffect(() => {
+    if (!uid) return;
+    sendPresence();
+    const heartbeat = setInterval(sendPresence, PRESENCE_HEARTBEAT_MS);
+    const leave = () => {
+      leaveRoom(roomId, uid).catch((error) => console.error("Error leaving whiteboard room:", error));
+    };
+    window.addEventListener('beforeunload', leave);
+
+    return () => {
+      clearInterval(heartbeat);
+      if (cursorTimerRef.current) clearTimeout(cursorTimerRef.current);
+      cursorTimerRef.current = null;
+      window.removeEventListener('beforeunload', leave);
+      leave();
+    };
+  }, [roomId, uid, sendPresence]);
+
+  const moveCursor = useCallback((cursor: Point | null) => {
+    cursorRef.current = cursor;
+    if (cursorTimerRef.current) return;
+    cursorTimerRef.current = setTimeout(() => {
+      cursorTimerRef.current = null;
+      sendPresence();
+    }, CURSOR_THROTTLE_MS);
+  }, [sendPresence]);
+
+  const newId = useCallback(() => newElementId(roomId), [roomId]);
+
+  // Not awaited: the listener picks the change up from the local cache right away.
+  const applyChange = useCallback((change: ElementChange) => {
+    applyElementChange(roomId, change).catch((error) =>
+      console.error("Error saving whiteboard change:", error)
+    );
+  }, [roomId]);
+
+  // Everyone else in the room; our own cursor is already on screen.
+  const others = participants.filter(participant => participant.uid !== uid);
+
+  return { room, elements, participants, others, loading, newId, applyChange, moveCursor };
+}
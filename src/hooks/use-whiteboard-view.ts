@@ -0,0 +1,200 @@
+"use client";
+
+import { useState, useRef, useCallback, useEffect, RefObject, PointerEvent } from 'react';
+import type { Bounds, Point } from '@/lib/whiteboard/elements';
+
+// How much of the world is visible at 100% zoom, in SVG user units. The board itself has no edges:
+// elements are stored in these world coordinates and can be anywhere.
+export const BOARD_WIDTH = 800;
+export const BOARD_HEIGHT = 600;
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 8;
+
+const ZOOM_STEP = 1.25;
+// Leave some space around the content when zooming to fit.
+const FIT_PADDING = 40;
+
+// The top-left of the visible area, in world coordinates, and how far it's zoomed in.
+export interface WhiteboardView {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+interface Pinch {
+  // The world point under the fingers when the gesture started, which stays under them.
+  anchor: Point;
+  startDistance: number;
+  startZoom: number;
+  // Screen pixels per world unit at `startZoom`, and where world (0, 0) would be on screen with no pan.
+  startScale: number;
+  origin: Point;
+}
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+const midpoint = (a: Point, b: Point) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+/**
+ * Tracks the visible part of the world and moves it around: two-finger touch gestures, the mouse
+ * wheel (pan, or zoom with Ctrl or a trackpad pinch), and the pan and zoom helpers for buttons and keys.
+ * The touch handlers return true when the event was used for a gesture and shouldn't draw.
+ */
+export function useWhiteboardView(svgRef: RefObject<SVGSVGElement | null>) {
+  const [view, setView] = useState<WhiteboardView>({ x: 0, y: 0, zoom: 1 });
+  const viewRef = useRef(view);
+  viewRef.current = view;
+  const touchesRef = useRef(new Map<number, Point>());
+  const pinchRef = useRef<Pinch | null>(null);
+
+  const startPinch = useCallback(() => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    const [a, b] = [...touchesRef.current.values()];
+    if (!svg || !ctm || !a || !b) return;
+
+    const mid = midpoint(a, b);
+    const point = svg.createSVGPoint();
+    point.x = mid.x;
+    point.y = mid.y;
+    const anchor = point.matrixTransform(ctm.inverse());
+    const current = viewRef.current;
+    pinchRef.current = {
+      anchor: { x: anchor.x, y: anchor.y },
+      startDistance: Math.max(Math.hypot(a.x - b.x, a.y - b.y), 1),
+      startZoom: current.zoom,
+      startScale: ctm.a,
+      origin: { x: ctm.e + current.x * ctm.a, y: ctm.f + current.y * ctm.d },
+    };
+  }, [svgRef]);
+
+  const touchDown = useCallback((e: PointerEvent) => {
+    if (e.pointerType !== 'touch') return false;
+    touchesRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (touchesRef.current.size === 2) {
+      startPinch();
+      return true;
+    }
+    return touchesRef.current.size > 2;
+  }, [startPinch]);
+
+  const touchMove = useCallback((e: PointerEvent) => {
+    if (e.pointerType !== 'touch' || !touchesRef.current.has(e.pointerId)) return false;
+    touchesRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const pinch = pinchRef.current;
+    if (!pinch) return false;
+
+    const [a, b] = [...touchesRef.current.values()];
+    const zoom = clampZoom(pinch.startZoom * Math.hypot(a.x - b.x, a.y - b.y) / pinch.startDistance);
+    const scale = pinch.startScale * zoom / pinch.startZoom;
+    const mid = midpoint(a, b);
+    // Pan so the anchor is under the fingers' new midpoint; zooming about it at the same time.
+    setView({
+      zoom,
+      x: pinch.anchor.x - (mid.x - pinch.origin.x) / scale,
+      y: pinch.anchor.y - (mid.y - pinch.origin.y) / scale,
+    });
+    return true;
+  }, []);
+
+  const touchUp = useCallback((e: PointerEvent) => {
+    if (e.pointerType !== 'touch') return false;
+    const wasPinching = pinchRef.current !== null;
+    touchesRef.current.delete(e.pointerId);
+    if (touchesRef.current.size < 2) pinchRef.current = null;
+    return wasPinching;
+  }, []);
+
+  const isPinching = useCallback(() => pinchRef.current !== null, []);
+
+  // Screen pixels per world unit at the current zoom.
+  const screenScale = useCallback(() => svgRef.current?.getScreenCTM()?.a || viewRef.current.zoom, [svgRef]);
+
+  const panBy = useCallback((dxScreen: number, dyScreen: number) => {
+    const scale = screenScale();
+    setView(current => ({ ...current, x: current.x + dxScreen / scale, y: current.y + dyScreen / scale }));
+  }, [screenScale]);
+
+  // Zooms keeping `anchor` (in world coordinates) in place; the middle of the view by default.
+  const zoomBy = useCallback((factor: number, anchor?: Point) => {
+    setView(current => {
+      const zoom = clampZoom(current.zoom * factor);
+      const center = anchor ?? {
+        x: current.x + BOARD_WIDTH / current.zoom / 2,
+        y: current.y + BOARD_HEIGHT / current.zoom / 2,
+      };
+      const ratio = current.zoom / zoom;
+      return { zoom, x: center.x - (center.x - current.x) * ratio, y: center.y - (center.y - current.y) * ratio };
+    });
+  }, []);
+
+  const zoomIn = useCallback(() => zoomBy(ZOOM_STEP), [zoomBy]);
+  const zoomOut = useCallback(() => zoomBy(1 / ZOOM_STEP), [zoomBy]);
+  const resetZoom = useCallback(() => zoomBy(1 / viewRef.current.zoom), [zoomBy]);
+
+  // Shows all of `bounds`, or the starting view when there's nothing to show.
+  const zoomToFit = useCallback((bounds: Bounds | null) => {
+    if (!bounds) {
+      setView({ x: 0, y: 0, zoom: 1 });
+      return;
+    }
+    const width = bounds.width + FIT_PADDING * 2;
+    const height = bounds.height + FIT_PADDING * 2;
+    const zoom = clampZoom(Math.min(BOARD_WIDTH / width, BOARD_HEIGHT / height));
+    setView({
+      zoom,
+      x: bounds.x + bounds.width / 2 - BOARD_WIDTH / zoom / 2,
+      y: bounds.y + bounds.height / 2 - BOARD_HEIGHT / zoom / 2,
+    });
+  }, []);
+
+  const centerOn = useCallback((point: Point) => {
+    setView(current => ({
+      ...current,
+      x: point.x - BOARD_WIDTH / current.zoom / 2,
+      y: point.y - BOARD_HEIGHT / current.zoom / 2,
+    }));
+  }, []);
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      if (e.ctrlKey || e.metaKey) {
+        const ctm = svg.getScreenCTM();
+        if (!ctm) return;
+        const point = svg.createSVGPoint();
+        point.x = e.clientX;
+        point.y = e.clientY;
+        const anchor = point.matrixTransform(ctm.inverse());
+        zoomBy(Math.exp(-e.deltaY * 0.01), { x: anchor.x, y: anchor.y });
+      } else {
+        panBy(e.deltaX, e.deltaY);
+      }
+    };
+    // Registered by hand because React's wheel listener is passive and can't stop the page scrolling.
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [svgRef, zoomBy, panBy]);
+
+  const visible: Bounds = { x: view.x, y: view.y, width: BOARD_WIDTH / view.zoom, height: BOARD_HEIGHT / view.zoom };
+  const viewBox = `${visible.x} ${visible.y} ${visible.width} ${visible.height}`;
+
+  return {
+    view,
+    visible,
+    viewBox,
+    touchDown,
+    touchMove,
+    touchUp,
+    isPinching,
+    panBy,
+    zoomIn,
+    zoomOut,
+    resetZoom,
+    zoomToFit,
+    centerOn,
+  };
+}
@@ -0,0 +1,129 @@
+// src/lib/firebase/account.ts
+import {
+  linkWithCredential,
+  reauthenticateWithCredential,
+  sendEmailVerification,
+  signOut,
+  updatePassword,
+  updateProfile,
+  verifyBeforeUpdateEmail,
+  EmailAuthProvider,
+  User,
+} from "firebase/auth";
+import { deleteObject, getDownloadURL, ref, uploadString, FirebaseStorage } from "firebase/storage";
+import { FirebaseError } from "firebase/app";
+import { auth, storage as defaultStorage } from "@/lib/firebase/client";
+import { deleteAllConversations } from "@/lib/firebase/chat-history";
+import { deleteAllBoards } from "@/lib/firebase/whiteboard-boards";
+import { reauthenticateWithProvider, OAUTH_PROVIDERS } from "@/lib/firebase/oauth";
+import { resizeImageToDataUri } from "@/lib/images";
+import { deleteOwnAccount, prepareAccountDeletion } from "@/app/settings/actions";
+
+// Changes people make to their own account from the settings page. Changing the email or password
+// and deleting the account need a recent sign-in, so those ask for it again first.
+
+const AVATAR_DIMENSION = 256;
+
+export const hasPassword = (user: User) => user.providerData.some((info) => info.providerId === "password");
+
+// Google vouches for its addresses; an email and password account has to prove it owns its address.
+export const needsEmailVerification = (user: User) => hasPassword(user) && !user.emailVerified;
+
+export function sendVerificationEmail(user: User): Promise<void> {
+  return sendEmailVerification(user);
+}
+
+/**
+ * Picks up a verification done in another tab or on another device. The ID token is refreshed too,
+ * so its email_verified claim matches.
+ */
+export async function reloadUser(user: User): Promise<void> {
+  await user.reload();
+  await user.getIdToken(true);
+}
+
+/**
+ * Signs the user in again: with `password` if their account has one, otherwise with the provider
+ * they signed in with, in a popup.
+ */
+export async function reauthenticate(user: User, password?: string): Promise<void> {
+  if (hasPassword(user) && user.email) {
+    await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email, password ?? ""));
+    return;
+  }
+  const provider = OAUTH_PROVIDERS.find(({ id }) => user.providerData.some((info) => info.providerId === id));
+  if (!provider) throw new Error("The account has no way to sign in again.");
+  await reauthenticateWithProvider(user, provider.id);
+}
+
+export function updateDisplayName(user: User, displayName: string): Promise<void> {
+  return updateProfile(user, { displayName: displayName.trim() });
+}
+
+const avatarRef = (storage: FirebaseStorage, uid: string) => ref(storage, `avatars/${uid}`);
+
+// Shrunk to a small JPEG first, so a photo straight off a phone is fine.
+export async function uploadAvatar(user: User, image: Blob, storage: FirebaseStorage = defaultStorage): Promise<void> {
+  const dataUri = await resizeImageToDataUri(image, AVATAR_DIMENSION);
+  const uploaded = await uploadString(avatarRef(storage, user.uid), dataUri, "data_url");
+  await updateProfile(user, { photoURL: await getDownloadURL(uploaded.ref) });
+}
+
+export async function removeAvatar(user: User, storage: FirebaseStorage = defaultStorage): Promise<void> {
+  await updateProfile(user, { photoURL: "" });
+  await deleteStoredAvatar(user.uid, storage);
+}
+
+async function deleteStoredAvatar(uid: string, storage: FirebaseStorage): Promise<void> {
+  try {
+    await deleteObject(avatarRef(storage, uid));
+  } catch (error) {
+    // Avatars from Google or GitHub aren't stored here.
+    if (!(error instanceof FirebaseError && error.code === "storage/object-not-found")) throw error;
+  }
+}
+
+/** Sends a link to `email`; the address changes once it's followed, and the old one is told. */
+export async function changeEmail(user: User, email: string, password?: string): Promise<void> {
+  await reauthenticate(user, password);
+  await verifyBeforeUpdateEmail(user, email.trim());
+}
+
+// Accounts that only use Google or GitHub get a password added, so they can log in with their email too.
+export async function changePassword(user: User, newPassword: string, currentPassword?: string): Promise<void> {
+  await reauthenticate(user, currentPassword);
+  if (hasPassword(user) || !user.email) {
+    await updatePassword(user, newPassword);
+  } else {
+    await linkWithCredential(user, EmailAuthProvider.credential(user.email, newPassword));
+  }
+}
+
+/** Deleting the account failed on the server; the message says why. */
+export class AccountDeletionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AccountDeletionError";
+  }
+}
+
+/**
+ * Deletes the user's chat history, whiteboards (the ones they made are deleted for everyone in
+ * them), profile picture and finally the account itself, along with its AI usage counts.
+ */
+export async function deleteAccount(user: User, password?: string, storage: FirebaseStorage = defaultStorage): Promise<void> {
+  // Both before anything is deleted, so a wrong password, or a server that couldn't delete the account,
+  // doesn't leave the account with its data gone.
+  await reauthenticate(user, password);
+  // A fresh token, so the server sees the sign-in that just happened.
+  const idToken = await user.getIdToken(true);
+  const prepared = await prepareAccountDeletion(idToken);
+  if (prepared.status === "error") throw new AccountDeletionError(prepared.message);
+
+  await deleteAllConversations(user.uid);
+  await deleteAllBoards(user.uid);
+  await deleteStoredAvatar(user.uid, storage);
+  const result = await deleteOwnAccount(idToken);
+  if (result.status === "error") throw new AccountDeletionError(result.message);
+  await signOut(auth);
+}
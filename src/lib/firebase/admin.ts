@@ -0,0 +1,63 @@
+// src/lib/firebase/admin.ts
+import { getApp, getApps, initializeApp, App } from "firebase-admin/app";
+import { getAuth, DecodedIdToken, UserRecord } from "firebase-admin/auth";
+import { getFirestore, Firestore } from "firebase-admin/firestore";
+import type { Role } from "@/lib/roles";
+
+// Server-side Firebase, for checking who's calling the AI flows and counting their usage. Don't
+// import this from client code.
+//
+// Verifying ID tokens only needs the project id. Anything more (Firestore, setting custom claims) uses
+// Application Default Credentials: automatic on App Hosting, GOOGLE_APPLICATION_CREDENTIALS elsewhere.
+
+function copyEmulatorHost(variable: string, host: string | undefined) {
+  if (host && !process.env[variable]) {
+    process.env[variable] = host;
+  }
+}
+
+function adminApp(): App {
+  if (getApps().length) return getApp();
+  // The Admin SDK reads FIREBASE_AUTH_EMULATOR_HOST and FIRESTORE_EMULATOR_HOST; reuse the client's
+  // settings so one variable covers both.
+  copyEmulatorHost("FIREBASE_AUTH_EMULATOR_HOST", process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST);
+  copyEmulatorHost("FIRESTORE_EMULATOR_HOST", process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST);
+  return initializeApp({ projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID });
+}
+
+/** Checks a Firebase ID token from the client and returns its claims; throws if it isn't valid. */
+export function verifyIdToken(idToken: string): Promise<DecodedIdToken> {
+  return getAuth(adminApp()).verifyIdToken(idToken);
+}
+
+/** Firestore with admin rights, which security rules don't apply to. */
+export function adminDb(): Firestore {
+  return getFirestore(adminApp());
+}
+
+/**
+ * Gives the user with this email a role, keeping their other custom claims. It reaches the user's
+ * app when their ID token is next refreshed (within the hour), or straight away if they log in again.
+ */
+export async function setUserRole(email: string, role: Role): Promise<UserRecord> {
+  const auth = getAuth(adminApp());
+  const user = await auth.getUserByEmail(email);
+  // Students are the default, so they don't need the claim.
+  const { role: _previous, ...claims } = user.customClaims ?? {};
+  await auth.setCustomUserClaims(user.uid, role === "student" ? claims : { ...claims, role });
+  return user;
+}
+
+/** Fails unless the server can both read and change this user: what deleteUserAndUsage needs. */
+export async function checkAccountAccess(uid: string): Promise<void> {
+  await Promise.all([getAuth(adminApp()).getUser(uid), adminDb().collection("usage").doc(uid).get()]);
+}
+
+/**
+ * Deletes the user's account and then their AI usage counts, which only the server can write. The
+ * account goes first, so a failure can't leave someone with fresh counts and their account intact.
+ */
+export async function deleteUserAndUsage(uid: string): Promise<void> {
+  await getAuth(adminApp()).deleteUser(uid);
+  await adminDb().collection("usage").doc(uid).delete();
+}
@@ -0,0 +1,39 @@
+// src/lib/firebase/auth-errors.ts
+import { FirebaseError } from "firebase/app";
+
+// Firebase's own messages read like "Firebase: Error (auth/wrong-password)."; these are for people.
+const messages: Record<string, string> = {
+  "auth/invalid-credential": "The email or password is incorrect.",
+  "auth/invalid-email": "Please enter a valid email address.",
+  "auth/user-disabled": "This account has been disabled.",
+  "auth/user-not-found": "The email or password is incorrect.",
+  "auth/wrong-password": "The email or password is incorrect.",
+  "auth/email-already-in-use": "An account already exists with this email. Log in instead.",
+  "auth/weak-password": "Please choose a stronger password of at least 6 characters.",
+  "auth/too-many-requests": "Too many attempts. Please wait a few minutes and try again.",
+  "auth/network-request-failed": "Couldn't reach the sign-in service. Please check your connection.",
+  "auth/popup-blocked": "The sign-in window was blocked. Please allow pop-ups for this site and try again.",
+  "auth/operation-not-allowed": "This sign-in method isn't enabled for the app.",
+  "auth/credential-already-in-use": "That account is already linked to a different EduMentor account.",
+  "auth/provider-already-linked": "That sign-in method is already linked to your account.",
+  "auth/no-such-provider": "That sign-in method isn't linked to your account.",
+  "auth/missing-password": "Please enter your current password.",
+  "auth/requires-recent-login": "For your security, please log in again and retry.",
+  "auth/user-mismatch": "That's a different account from the one you're logged in with.",
+  "auth/expired-action-code": "This link has expired. Please ask for a new one.",
+  "auth/invalid-action-code": "This link has already been used or is incomplete. Please ask for a new one.",
+  "storage/unauthorized": "The picture couldn't be saved. Please use an image under 1 MB.",
+};
+
+/** A message to show for a failed sign-in or account change. */
+export function authErrorMessage(error: unknown): string {
+  if (error instanceof FirebaseError && messages[error.code]) {
+    return messages[error.code];
+  }
+  return "An unexpected error occurred. Please try again.";
+}
+
+// The user closed the sign-in window themselves, so there's nothing to report.
+export const isCancelledSignIn = (error: unknown) =>
+  error instanceof FirebaseError &&
+  (error.code === "auth/popup-closed-by-user" || error.code === "auth/cancelled-popup-request");
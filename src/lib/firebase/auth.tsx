@@ -1,27 +1,46 @@
 // src/lib/firebase/auth.tsx
 "use client";
 
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { onAuthStateChanged, User, signOut as firebaseSignOut } from 'firebase/auth';
+import { createContext, useCallback, useContext, useState, useEffect, ReactNode } from 'react';
+import { onIdTokenChanged, User, signOut as firebaseSignOut } from 'firebase/auth';
 import { auth } from '@/lib/firebase/client';
+import { roleFromClaims, Role } from '@/lib/roles';
 import { useRouter } from 'next/navigation';
 
 interface AuthContextType {
   user: User | null;
+  // From the user's ID token (see src/lib/roles.ts); null when signed out.
+  role: Role | null;
   loading: boolean;
   signOut: () => Promise<void>;
+  // Call after changing the user (e.g. linking a sign-in method), which Firebase doesn't announce.
+  refreshUser: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [role, setRole] = useState<Role | null>(null);
   const [loading, setLoading] = useState(true);
+  // The user object is changed in place, so re-render by bumping this instead.
+  const [, setVersion] = useState(0);
   const router = useRouter();
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (user) => {
+    // Unlike onAuthStateChanged this also fires when the token is refreshed, which is when a changed role arrives.
+    const unsubscribe = onIdTokenChanged(auth, async (user) => {
+      let role: Role | null = null;
+      if (user) {
+        try {
+          role = roleFromClaims((await user.getIdTokenResult()).claims);
+        } catch (error) {
+          console.error("Error reading the user's role:", error);
+          role = 'student';
+        }
+      }
       setUser(user);
+      setRole(role);
       setLoading(false);
     });
 
@@ -33,13 +52,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     router.push('/login');
   };
 
+  const refreshUser = useCallback(() => setVersion((version) => version + 1), []);
+
   return (
-    <AuthContext.Provider value={{ user, loading, signOut }}>
+    <AuthContext.Provider value={{ user, role, loading, signOut, refreshUser }}>
       {children}
     </AuthContext.Provider>
   );
 }
 
+// For requests to the AI routes, which only answer signed-in users (see src/ai/auth.ts).
+export async function authHeaders(user: User): Promise<Record<string, string>> {
+  return { Authorization: `Bearer ${await user.getIdToken()}` };
+}
+
 export function useAuth() {
   const context = useContext(AuthContext);
   if (context === undefined) {
@@ -0,0 +1,99 @@
+// src/lib/firebase/chat-history.test.ts
+import "@/test/emulators";
+import assert from "node:assert/strict";
+import { after, afterEach, beforeEach, describe, test } from "node:test";
+import { createUserWithEmailAndPassword, signOut } from "firebase/auth";
+import { collection, doc, getDoc, getDocs, orderBy, query } from "firebase/firestore";
+import { auth, db } from "@/lib/firebase/client";
+import { DEFAULT_CONVERSATION_ID, migrateLocalHistory } from "@/lib/firebase/chat-history";
+import type { Message } from "@/components/chat/ChatMessage";
+import { MemoryStorage, requireFirestoreEmulator, uniqueEmail } from "@/test/emulators";
+
+requireFirestoreEmulator();
+
+const localHistoryKey = (uid: string) => `chat-history-${uid}`;
+
+const messagesOf = async (uid: string, conversationId = DEFAULT_CONVERSATION_ID) => {
+  const snapshot = await getDocs(
+    query(collection(db, "users", uid, "conversations", conversationId, "messages"), orderBy("createdAt"))
+  );
+  return snapshot.docs.map((message) => ({ ...(message.data() as Message), id: message.id }));
+};
+
+const conversation = (count: number): Message[] =>
+  Array.from({ length: count }, (_, i) => ({
+    role: i % 2 ? "assistant" : "user",
+    content: `Message ${i}`,
+  }));
+
+describe("migrateLocalHistory", () => {
+  let uid: string;
+  const localStorage = new MemoryStorage();
+
+  // Firestore rules only let users write their own history, so each test signs in as a new user.
+  beforeEach(async () => {
+    ({ user: { uid } } = await createUserWithEmailAndPassword(auth, uniqueEmail(), "password"));
+    // Only once signed in: the Firebase SDKs behave differently when they find a window.
+    localStorage.clear();
+    Object.assign(globalThis, { window: { localStorage } });
+  });
+
+  afterEach(() => {
+    Reflect.deleteProperty(globalThis, "window");
+  });
+
+  after(() => signOut(auth));
+
+  test("copies the local history into the default conversation in order and removes it", async () => {
+    const local = conversation(3);
+    localStorage.setItem(localHistoryKey(uid), JSON.stringify(local));
+
+    assert.equal(await migrateLocalHistory(uid), 3);
+
+    const migrated = await messagesOf(uid);
+    assert.deepEqual(
+      migrated.map(({ id, role, content }) => ({ id, role, content })),
+      local.map(({ role, content }, i) => ({ id: `local-${i}`, role, content }))
+    );
+    const saved = await getDoc(doc(db, "users", uid, "conversations", DEFAULT_CONVERSATION_ID));
+    assert.equal(saved.get("title"), "Earlier chats");
+    assert.equal(localStorage.getItem(localHistoryKey(uid)), null);
+  });
+
+  test("doesn't duplicate messages when an interrupted migration runs again", async () => {
+    const local = conversation(4);
+    localStorage.setItem(localHistoryKey(uid), JSON.stringify(local));
+    await migrateLocalHistory(uid);
+    // As if the tab closed before the local copy was removed.
+    localStorage.setItem(localHistoryKey(uid), JSON.stringify(local));
+
+    assert.equal(await migrateLocalHistory(uid), 4);
+
+    assert.equal((await messagesOf(uid)).length, 4);
+  });
+
+  test("writes histories longer than one batch", async () => {
+    localStorage.setItem(localHistoryKey(uid), JSON.stringify(conversation(401)));
+
+    assert.equal(await migrateLocalHistory(uid), 401);
+
+    const migrated = await messagesOf(uid);
+    assert.equal(migrated.length, 401);
+    assert.equal(migrated.at(-1)?.content, "Message 400");
+  });
+
+  test("does nothing when there's no local history", async () => {
+    assert.equal(await migrateLocalHistory(uid), 0);
+
+    const saved = await getDoc(doc(db, "users", uid, "conversations", DEFAULT_CONVERSATION_ID));
+    assert.equal(saved.exists(), false);
+  });
+
+  test("leaves history it can't read where it is", async () => {
+    localStorage.setItem(localHistoryKey(uid), "not json");
+
+    assert.equal(await migrateLocalHistory(uid), 0);
+
+    assert.equal(localStorage.getItem(localHistoryKey(uid)), "not json");
+  });
+});
@@ -0,0 +1,246 @@
+// src/lib/firebase/chat-history.ts
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  onSnapshot,
+  orderBy,
+  query,
+  setDoc,
+  updateDoc,
+  writeBatch,
+  Firestore,
+  Unsubscribe,
+} from "firebase/firestore";
+import { db as defaultDb } from "@/lib/firebase/client";
+import type { Message } from "@/components/chat/ChatMessage";
+import type { ConversationSummary } from "@/ai/history";
+
+// Conversations live at users/{uid}/conversations/{conversationId}/messages/{messageId}.
+// History migrated from local storage goes into the "default" conversation.
+export const DEFAULT_CONVERSATION_ID = "default";
+
+export interface Conversation {
+  id: string;
+  title: string;
+  pinned: boolean;
+  createdAt: number;
+  updatedAt: number;
+  // What the AI made of the older turns, kept so it only has to summarize what's new (see src/ai/history.ts).
+  summary?: ConversationSummary;
+}
+
+const UNTITLED_CONVERSATION = "New chat";
+const MAX_TITLE_LENGTH = 48;
+
+// Firestore rejects documents over 1 MiB; generated images can get close to that.
+const MAX_MESSAGE_BYTES = 900_000;
+
+// Firestore caps a batch at 500 writes.
+const BATCH_SIZE = 400;
+
+interface StoredMessage extends Message {
+  createdAt: number;
+}
+
+const messagesCollection = (db: Firestore, uid: string, conversationId: string) =>
+  collection(db, "users", uid, "conversations", conversationId, "messages");
+
+const conversationsCollection = (db: Firestore, uid: string) =>
+  collection(db, "users", uid, "conversations");
+
+const conversationDoc = (db: Firestore, uid: string, conversationId: string) =>
+  doc(conversationsCollection(db, uid), conversationId);
+
+export function titleFromQuestion(question: string): string {
+  const title = question.replace(/\s+/g, " ").trim();
+  if (title.length <= MAX_TITLE_LENGTH) return title || UNTITLED_CONVERSATION;
+  const cut = title.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut}…`;
+}
+
+// Pinned conversations first, then the most recently active.
+const compareConversations = (a: Conversation, b: Conversation) =>
+  Number(b.pinned) - Number(a.pinned) || b.updatedAt - a.updatedAt;
+
+export function subscribeToConversations(
+  uid: string,
+  onChange: (conversations: Conversation[]) => void,
+  db: Firestore = defaultDb
+): Unsubscribe {
+  return onSnapshot(
+    conversationsCollection(db, uid),
+    (snapshot) => {
+      const conversations = snapshot.docs.map((conversation) => {
+        const data = conversation.data();
+        return {
+          id: conversation.id,
+          title: data.title ?? UNTITLED_CONVERSATION,
+          pinned: data.pinned ?? false,
+          createdAt: data.createdAt ?? data.updatedAt ?? 0,
+          updatedAt: data.updatedAt ?? 0,
+          summary: data.summary,
+        };
+      });
+      onChange(conversations.sort(compareConversations));
+    },
+    (error) => console.error("Error listening to conversations:", error)
+  );
+}
+
+// Returns the new id right away; like messages, the write syncs in the background.
+export function createConversation(
+  uid: string,
+  title: string,
+  db: Firestore = defaultDb
+): { id: string; saved: Promise<void> } {
+  const conversation = doc(conversationsCollection(db, uid));
+  const now = Date.now();
+  const saved = setDoc(conversation, { title, pinned: false, createdAt: now, updatedAt: now });
+  return { id: conversation.id, saved };
+}
+
+export async function renameConversation(
+  uid: string,
+  conversationId: string,
+  title: string,
+  db: Firestore = defaultDb
+): Promise<void> {
+  await updateDoc(conversationDoc(db, uid, conversationId), { title: title.trim() || UNTITLED_CONVERSATION });
+}
+
+export async function setConversationPinned(
+  uid: string,
+  conversationId: string,
+  pinned: boolean,
+  db: Firestore = defaultDb
+): Promise<void> {
+  await updateDoc(conversationDoc(db, uid, conversationId), { pinned });
+}
+
+export async function saveConversationSummary(
+  uid: string,
+  conversationId: string,
+  summary: ConversationSummary,
+  db: Firestore = defaultDb
+): Promise<void> {
+  await updateDoc(conversationDoc(db, uid, conversationId), { summary });
+}
+
+// Firestore doesn't delete subcollections with their parent, so remove the messages first.
+export async function deleteConversation(
+  uid: string,
+  conversationId: string,
+  db: Firestore = defaultDb
+): Promise<void> {
+  const messages = await getDocs(messagesCollection(db, uid, conversationId));
+  for (let offset = 0; offset < messages.docs.length; offset += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    messages.docs.slice(offset, offset + BATCH_SIZE).forEach((message) => batch.delete(message.ref));
+    await batch.commit();
+  }
+  await deleteDoc(conversationDoc(db, uid, conversationId));
+}
+
+// For deleting an account: every conversation, and any history older versions left in local storage.
+export async function deleteAllConversations(uid: string, db: Firestore = defaultDb): Promise<void> {
+  const conversations = await getDocs(conversationsCollection(db, uid));
+  for (const conversation of conversations.docs) {
+    await deleteConversation(uid, conversation.id, db);
+  }
+  window.localStorage.removeItem(localHistoryKey(uid));
+}
+
+function toStoredMessage(message: Message, createdAt: number): StoredMessage {
+  const { id: _id, ...data } = message;
+  const stored: StoredMessage = { ...data, createdAt };
+  if (stored.visualAids && JSON.stringify(stored).length > MAX_MESSAGE_BYTES) {
+    console.warn("Visual aid too large to store, saving the message without it.");
+    delete stored.visualAids;
+  }
+  return stored;
+}
+
+export function subscribeToMessages(
+  uid: string,
+  conversationId: string,
+  onChange: (messages: Message[]) => void,
+  db: Firestore = defaultDb
+): Unsubscribe {
+  const messagesQuery = query(messagesCollection(db, uid, conversationId), orderBy("createdAt"));
+  return onSnapshot(
+    messagesQuery,
+    (snapshot) => {
+      onChange(
+        snapshot.docs.map((messageDoc) => {
+          const { createdAt: _createdAt, ...message } = messageDoc.data() as StoredMessage;
+          return { ...message, id: messageDoc.id };
+        })
+      );
+    },
+    (error) => console.error("Error listening to chat history:", error)
+  );
+}
+
+// Resolves once the write reaches the server; the local cache (and any listener) sees it immediately.
+export async function addMessage(
+  uid: string,
+  conversationId: string,
+  message: Message,
+  db: Firestore = defaultDb
+): Promise<void> {
+  const now = Date.now();
+  const batch = writeBatch(db);
+  batch.set(doc(messagesCollection(db, uid, conversationId)), toStoredMessage(message, now));
+  batch.set(conversationDoc(db, uid, conversationId), { updatedAt: now }, { merge: true });
+  await batch.commit();
+}
+
+const localHistoryKey = (uid: string) => `chat-history-${uid}`;
+
+/**
+ * Copies history saved by older versions of the app in local storage into Firestore,
+ * then removes it. Message ids are derived from their position so re-running after an
+ * interrupted migration overwrites instead of duplicating.
+ */
+export async function migrateLocalHistory(
+  uid: string,
+  conversationId: string = DEFAULT_CONVERSATION_ID,
+  db: Firestore = defaultDb
+): Promise<number> {
+  if (typeof window === "undefined") return 0;
+
+  let localMessages: Message[];
+  try {
+    const item = window.localStorage.getItem(localHistoryKey(uid));
+    localMessages = item ? (JSON.parse(item) as Message[]) : [];
+  } catch (error) {
+    console.warn("Error reading local chat history for migration:", error);
+    return 0;
+  }
+  if (!localMessages.length) return 0;
+
+  // Keep the original order of the migrated messages.
+  const startedAt = Date.now() - localMessages.length;
+  for (let offset = 0; offset < localMessages.length; offset += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    localMessages.slice(offset, offset + BATCH_SIZE).forEach((message, i) => {
+      const index = offset + i;
+      batch.set(
+        doc(messagesCollection(db, uid, conversationId), `local-${index}`),
+        toStoredMessage(message, startedAt + index)
+      );
+    });
+    await batch.commit();
+  }
+  await setDoc(
+    conversationDoc(db, uid, conversationId),
+    { title: "Earlier chats", pinned: false, createdAt: startedAt, updatedAt: Date.now() },
+    { merge: true }
+  );
+
+  window.localStorage.removeItem(localHistoryKey(uid));
+  return localMessages.length;
+}
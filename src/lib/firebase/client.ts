@@ -1,6 +1,16 @@
 // src/lib/firebase/client.ts
 import { initializeApp, getApps, getApp } from "firebase/app";
-import { getAuth } from "firebase/auth";
+import { connectAuthEmulator, getAuth } from "firebase/auth";
+import {
+  connectFirestoreEmulator,
+  getFirestore,
+  initializeFirestore,
+  memoryLocalCache,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+  Firestore,
+} from "firebase/firestore";
+import { connectStorageEmulator, getStorage } from "firebase/storage";
 
 const firebaseConfig = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
@@ -15,5 +25,43 @@ const firebaseConfig = {
 // Initialize Firebase
 const app = !getApps().length ? initializeApp(firebaseConfig) : getApp();
 const auth = getAuth(app);
+// e.g. NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST=127.0.0.1:9099; its sign-in pages stand in for Google and GitHub.
+const authEmulatorHost = process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST;
+if (authEmulatorHost && !auth.emulatorConfig) {
+  connectAuthEmulator(auth, `http://${authEmulatorHost}`, { disableWarnings: true });
+}
 
-export { app, auth };
+function createFirestore(): Firestore {
+  try {
+    // Persist to IndexedDB in the browser so history works offline and syncs once back online.
+    const db = initializeFirestore(app, {
+      ignoreUndefinedProperties: true,
+      localCache:
+        typeof window === "undefined"
+          ? memoryLocalCache()
+          : persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+    });
+    // e.g. NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST=127.0.0.1:8080 to use the emulator from .idx/dev.nix
+    const emulatorHost = process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST;
+    if (emulatorHost) {
+      const [host, port] = emulatorHost.split(":");
+      connectFirestoreEmulator(db, host, Number(port));
+    }
+    return db;
+  } catch {
+    // Already initialized, e.g. after a hot reload.
+    return getFirestore(app);
+  }
+}
+
+const db = createFirestore();
+
+// Profile pictures. e.g. NEXT_PUBLIC_FIREBASE_STORAGE_EMULATOR_HOST=127.0.0.1:9199
+const storage = getStorage(app);
+const storageEmulatorHost = process.env.NEXT_PUBLIC_FIREBASE_STORAGE_EMULATOR_HOST;
+if (storageEmulatorHost) {
+  const [host, port] = storageEmulatorHost.split(":");
+  connectStorageEmulator(storage, host, Number(port));
+}
+
+export { app, auth, db, storage };
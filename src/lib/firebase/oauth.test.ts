@@ -0,0 +1,93 @@
+// src/lib/firebase/oauth.test.ts
+import "@/test/emulators";
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, test } from "node:test";
+import {
+  createUserWithEmailAndPassword,
+  signInWithCredential,
+  signInWithEmailAndPassword,
+  signOut,
+  GithubAuthProvider,
+} from "firebase/auth";
+import { auth } from "@/lib/firebase/client";
+import { clearPendingLink, completePendingLink, loadPendingLink, savePendingLink, PendingLink } from "@/lib/firebase/oauth";
+import { MemoryStorage, uniqueEmail } from "@/test/emulators";
+
+// The Auth emulator takes the claims of a made-up GitHub account in place of a real token. An
+// unverified email makes it ask for the existing account's password first, as GitHub does for real.
+const githubCredential = (email: string) =>
+  GithubAuthProvider.credential(JSON.stringify({ sub: crypto.randomUUID(), email, email_verified: false }));
+
+const PASSWORD = "password";
+
+describe("account linking", () => {
+  const sessionStorage = new MemoryStorage();
+  let email: string;
+  let pending: PendingLink;
+
+  before(() => {
+    Object.assign(globalThis, { sessionStorage });
+  });
+
+  after(async () => {
+    Reflect.deleteProperty(globalThis, "sessionStorage");
+    await signOut(auth);
+  });
+
+  // Someone signed up with a password, logged out, and then tried GitHub with the same email.
+  beforeEach(async () => {
+    sessionStorage.clear();
+    email = uniqueEmail();
+    await createUserWithEmailAndPassword(auth, email, PASSWORD);
+    await signOut(auth);
+    pending = { email, providerId: "github.com", credential: githubCredential(email) };
+  });
+
+  test("GitHub sign-in with the email of an existing account is refused until it's linked", async () => {
+    await assert.rejects(signInWithCredential(auth, pending.credential), {
+      code: "auth/account-exists-with-different-credential",
+    });
+  });
+
+  test("links GitHub to the existing account once the user logs in with their password", async () => {
+    savePendingLink(pending);
+    const { user } = await signInWithEmailAndPassword(auth, email, PASSWORD);
+
+    assert.equal(await completePendingLink(user, pending), true);
+
+    assert.deepEqual(user.providerData.map((info) => info.providerId).sort(), ["github.com", "password"]);
+    assert.equal(loadPendingLink(), null);
+    // And GitHub now signs in to the same account.
+    await signOut(auth);
+    const { user: viaGithub } = await signInWithCredential(auth, pending.credential);
+    assert.equal(viaGithub.uid, user.uid);
+  });
+
+  test("matches the account's email regardless of case", async () => {
+    const { user } = await signInWithEmailAndPassword(auth, email, PASSWORD);
+
+    assert.equal(await completePendingLink(user, { ...pending, email: email.toUpperCase() }), true);
+  });
+
+  test("leaves the link pending when the user logs in to a different account", async () => {
+    savePendingLink(pending);
+    const { user: other } = await createUserWithEmailAndPassword(auth, uniqueEmail(), PASSWORD);
+
+    assert.equal(await completePendingLink(other, pending), false);
+
+    assert.deepEqual(other.providerData.map((info) => info.providerId), ["password"]);
+    assert.equal(loadPendingLink()?.email, email);
+  });
+
+  test("keeps the pending credential from the sign-up page to the login page", () => {
+    savePendingLink(pending);
+
+    const loaded = loadPendingLink();
+    assert.equal(loaded?.email, email);
+    assert.equal(loaded?.providerId, "github.com");
+    assert.equal(loaded?.credential.accessToken, pending.credential.accessToken);
+
+    clearPendingLink();
+    assert.equal(loadPendingLink(), null);
+  });
+});
@@ -0,0 +1,126 @@
+// src/lib/firebase/oauth.ts
+import { FirebaseError } from "firebase/app";
+import {
+  GithubAuthProvider,
+  GoogleAuthProvider,
+  linkWithCredential,
+  linkWithPopup,
+  reauthenticateWithPopup,
+  signInWithPopup,
+  unlink,
+  AuthProvider,
+  OAuthCredential,
+  User,
+  UserCredential,
+} from "firebase/auth";
+import { auth } from "@/lib/firebase/client";
+
+// Google and GitHub sign-in, and linking them to an account that already exists. Firebase keeps one
+// account per email address, so signing in with a provider whose email already has an account fails
+// with auth/account-exists-with-different-credential. The provider's credential from that failure is
+// kept until the user signs in the way they did before, and is then linked to that account.
+
+export type OAuthProviderId = "google.com" | "github.com";
+
+export const OAUTH_PROVIDERS: { id: OAuthProviderId; label: string }[] = [
+  { id: "google.com", label: "Google" },
+  { id: "github.com", label: "GitHub" },
+];
+
+// How to describe any of a user's sign-in methods, including email and password.
+export const providerLabel = (providerId: string) =>
+  OAUTH_PROVIDERS.find((provider) => provider.id === providerId)?.label ??
+  (providerId === "password" ? "email and password" : providerId);
+
+function createProvider(id: OAuthProviderId): AuthProvider {
+  if (id === "google.com") {
+    const provider = new GoogleAuthProvider();
+    // Let people with several Google accounts choose, rather than silently using the last one.
+    provider.setCustomParameters({ prompt: "select_account" });
+    return provider;
+  }
+  const provider = new GithubAuthProvider();
+  // Without this GitHub leaves out private email addresses, and accounts can't be matched up by email.
+  provider.addScope("user:email");
+  return provider;
+}
+
+const credentialFromError = (id: OAuthProviderId, error: FirebaseError) =>
+  id === "google.com" ? GoogleAuthProvider.credentialFromError(error) : GithubAuthProvider.credentialFromError(error);
+
+/** A provider sign-in waiting to be linked to the existing account with the same email. */
+export interface PendingLink {
+  email: string;
+  providerId: OAuthProviderId;
+  credential: OAuthCredential;
+}
+
+// Thrown when the provider's email already has an account that signs in some other way.
+export class AccountExistsError extends Error {
+  constructor(readonly pending: PendingLink) {
+    super(`An account already exists for ${pending.email}.`);
+    this.name = "AccountExistsError";
+  }
+}
+
+export async function signInWithProvider(id: OAuthProviderId): Promise<UserCredential> {
+  try {
+    return await signInWithPopup(auth, createProvider(id));
+  } catch (error) {
+    if (error instanceof FirebaseError && error.code === "auth/account-exists-with-different-credential") {
+      const credential = credentialFromError(id, error);
+      const email = error.customData?.email;
+      if (credential && typeof email === "string") {
+        throw new AccountExistsError({ email, providerId: id, credential });
+      }
+    }
+    throw error;
+  }
+}
+
+// Kept for the browser tab, so it survives going from the sign-up page to the login page.
+const PENDING_LINK_KEY = "pending-account-link";
+
+export function savePendingLink({ email, providerId, credential }: PendingLink): void {
+  sessionStorage.setItem(PENDING_LINK_KEY, JSON.stringify({ email, providerId, credential: credential.toJSON() }));
+}
+
+export function loadPendingLink(): PendingLink | null {
+  try {
+    const saved = sessionStorage.getItem(PENDING_LINK_KEY);
+    if (!saved) return null;
+    const { email, providerId, credential } = JSON.parse(saved);
+    const restored = OAuthCredential.fromJSON(credential);
+    return restored ? { email, providerId, credential: restored } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function clearPendingLink(): void {
+  sessionStorage.removeItem(PENDING_LINK_KEY);
+}
+
+/**
+ * Links a pending provider to `user` once they've signed in. Returns false, leaving it pending, if
+ * they signed in to a different account from the one the provider's email belongs to.
+ */
+export async function completePendingLink(user: User, pending: PendingLink): Promise<boolean> {
+  if (user.email?.toLowerCase() !== pending.email.toLowerCase()) return false;
+  await linkWithCredential(user, pending.credential);
+  clearPendingLink();
+  return true;
+}
+
+export function linkProvider(user: User, id: OAuthProviderId): Promise<UserCredential> {
+  return linkWithPopup(user, createProvider(id));
+}
+
+export function unlinkProvider(user: User, providerId: string): Promise<User> {
+  return unlink(user, providerId);
+}
+
+// Confirms it's really them before a sensitive change, for accounts without a password.
+export function reauthenticateWithProvider(user: User, id: OAuthProviderId): Promise<UserCredential> {
+  return reauthenticateWithPopup(user, createProvider(id));
+}
@@ -0,0 +1,19 @@
+// src/lib/firebase/usage.ts
+import { doc, onSnapshot, Firestore, Unsubscribe } from "firebase/firestore";
+import { db as defaultDb } from "@/lib/firebase/client";
+import type { Usage } from "@/lib/quota";
+
+// How much of their AI quota each user has used, at usage/{uid}. Only the server writes it
+// (src/ai/quota.ts); the app listens to it to show what's left.
+
+export function subscribeToUsage(
+  uid: string,
+  onChange: (usage: Partial<Usage> | undefined) => void,
+  db: Firestore = defaultDb
+): Unsubscribe {
+  return onSnapshot(
+    doc(db, "usage", uid),
+    (snapshot) => onChange(snapshot.data() as Partial<Usage> | undefined),
+    (error) => console.error("Error listening to AI usage:", error)
+  );
+}
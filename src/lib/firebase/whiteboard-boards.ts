@@ -0,0 +1,184 @@
+// src/lib/firebase/whiteboard-boards.ts
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  onSnapshot,
+  setDoc,
+  Firestore,
+  Unsubscribe,
+} from "firebase/firestore";
+import { db as defaultDb } from "@/lib/firebase/client";
+import {
+  applyElementChange,
+  boardName,
+  createRoom,
+  deleteRoom,
+  getElements,
+  newElementId,
+  renameRoom,
+  WhiteboardRoom,
+} from "@/lib/firebase/whiteboard-rooms";
+import {
+  parseWhiteboardDocument,
+  serializeWhiteboardDocument,
+  WhiteboardDocument,
+} from "@/lib/whiteboard/document";
+import type { WhiteboardElement } from "@/lib/whiteboard/elements";
+
+// Each user's list of whiteboards lives at users/{uid}/whiteboards/{roomId}: the boards they made
+// and the ones they've opened from an invite link. The contents stay in the shared room; the list
+// only remembers enough to show it. A copy of every board they've worked on is also kept in local
+// storage, so it survives the room being deleted or unreachable.
+
+export interface WhiteboardSummary {
+  id: string;
+  name: string;
+  // Empty for boards only known from local storage.
+  createdBy: string;
+  updatedAt: number;
+}
+
+const boardsCollection = (db: Firestore, uid: string) => collection(db, "users", uid, "whiteboards");
+
+const boardDoc = (db: Firestore, uid: string, roomId: string) => doc(boardsCollection(db, uid), roomId);
+
+export function subscribeToBoards(
+  uid: string,
+  onChange: (boards: WhiteboardSummary[]) => void,
+  db: Firestore = defaultDb
+): Unsubscribe {
+  return onSnapshot(
+    boardsCollection(db, uid),
+    (snapshot) => {
+      const boards = snapshot.docs.map((board) => {
+        const data = board.data();
+        return {
+          id: board.id,
+          name: data.name ?? "",
+          createdBy: data.createdBy ?? "",
+          updatedAt: data.updatedAt ?? 0,
+        };
+      });
+      onChange(boards.sort((a, b) => b.updatedAt - a.updatedAt));
+    },
+    (error) => console.error("Error listening to whiteboards:", error)
+  );
+}
+
+// Adds the room to the user's list, or refreshes its entry after the room changed.
+export async function rememberBoard(
+  uid: string,
+  roomId: string,
+  { name, createdBy, updatedAt }: WhiteboardRoom,
+  db: Firestore = defaultDb
+): Promise<void> {
+  await setDoc(boardDoc(db, uid, roomId), { name, createdBy, updatedAt });
+}
+
+/**
+ * Starts a new room, optionally filled with a copy of `elements`, and adds it to the user's list.
+ * Returns the new id right away; the writes sync in the background.
+ */
+export function createBoard(
+  uid: string,
+  name: string,
+  elements: WhiteboardElement[] = [],
+  db: Firestore = defaultDb
+): { id: string; saved: Promise<void> } {
+  const { id, saved: roomSaved } = createRoom(uid, name, db);
+  const now = Date.now();
+  const saved = Promise.all([
+    roomSaved,
+    setDoc(boardDoc(db, uid, id), { name: boardName(name), createdBy: uid, updatedAt: now }),
+  ]).then(async () => {
+    if (!elements.length) return;
+    // New ids, so the copy is independent of wherever the elements came from.
+    const put = elements.map((element) => ({ ...element, id: newElementId(id, db) }));
+    await applyElementChange(id, { put }, db);
+  });
+  return { id, saved };
+}
+
+export async function renameBoard(uid: string, roomId: string, name: string, db: Firestore = defaultDb): Promise<void> {
+  await Promise.all([
+    renameRoom(roomId, name, db),
+    setDoc(boardDoc(db, uid, roomId), { name: boardName(name), updatedAt: Date.now() }, { merge: true }),
+  ]);
+}
+
+export async function duplicateBoard(
+  uid: string,
+  board: WhiteboardSummary,
+  db: Firestore = defaultDb
+): Promise<string> {
+  const elements = await getElements(board.id, db);
+  const { id, saved } = createBoard(uid, `Copy of ${board.name}`, elements, db);
+  await saved;
+  return id;
+}
+
+// Boards the user made are deleted for everyone; boards shared with them are only taken off their list.
+export async function deleteBoard(uid: string, board: WhiteboardSummary, db: Firestore = defaultDb): Promise<void> {
+  if (board.createdBy === uid) {
+    await deleteRoom(board.id, db);
+  }
+  await deleteDoc(boardDoc(db, uid, board.id));
+  removeLocalBoard(uid, board.id);
+}
+
+// For deleting an account: every board on the user's list, and any copies left only on this device.
+export async function deleteAllBoards(uid: string, db: Firestore = defaultDb): Promise<void> {
+  const boards = await getDocs(boardsCollection(db, uid));
+  for (const board of boards.docs) {
+    const { name = "", createdBy = "", updatedAt = 0 } = board.data();
+    await deleteBoard(uid, { id: board.id, name, createdBy, updatedAt }, db);
+  }
+  listLocalBoards(uid).forEach((board) => removeLocalBoard(uid, board.id));
+}
+
+const localBoardPrefix = (uid: string) => `whiteboard-${uid}-`;
+const localBoardKey = (uid: string, roomId: string) => `${localBoardPrefix(uid)}${roomId}`;
+
+// Local storage is small (usually 5 MB) and boards with diagrams are big, so saving can fail; that's
+// not worth interrupting anyone over when the board is safe in Firestore.
+export function saveLocalBoard(uid: string, roomId: string, document: WhiteboardDocument): void {
+  try {
+    window.localStorage.setItem(localBoardKey(uid, roomId), serializeWhiteboardDocument(document));
+  } catch (error) {
+    console.warn("Error saving whiteboard to local storage:", error);
+  }
+}
+
+export function loadLocalBoard(uid: string, roomId: string): WhiteboardDocument | null {
+  if (typeof window === "undefined") return null;
+  const item = window.localStorage.getItem(localBoardKey(uid, roomId));
+  if (!item) return null;
+  try {
+    return parseWhiteboardDocument(item);
+  } catch (error) {
+    console.warn("Error reading whiteboard from local storage:", error);
+    return null;
+  }
+}
+
+export function removeLocalBoard(uid: string, roomId: string): void {
+  window.localStorage.removeItem(localBoardKey(uid, roomId));
+}
+
+export function listLocalBoards(uid: string): WhiteboardSummary[] {
+  if (typeof window === "undefined") return [];
+  const prefix = localBoardPrefix(uid);
+  const boards: WhiteboardSummary[] = [];
+  for (let i = 0; i < window.localStorage.length; i++) {
+    const key = window.localStorage.key(i);
+    if (!key?.startsWith(prefix)) continue;
+    const roomId = key.slice(prefix.length);
+    const document = loadLocalBoard(uid, roomId);
+    if (document) {
+      boards.push({ id: roomId, name: document.name, createdBy: "", updatedAt: document.savedAt });
+    }
+  }
+  return boards;
+}
@@ -0,0 +1,233 @@
+// src/lib/firebase/whiteboard-rooms.ts
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  onSnapshot,
+  orderBy,
+  query,
+  setDoc,
+  updateDoc,
+  writeBatch,
+  Firestore,
+  WriteBatch,
+  Unsubscribe,
+} from "firebase/firestore";
+import { db as defaultDb } from "@/lib/firebase/client";
+import type { Point, StrokePoint, WhiteboardElement } from "@/lib/whiteboard/elements";
+
+// Rooms live at whiteboards/{roomId}, with elements/{elementId} and presence/{uid} underneath.
+// Anyone signed in who has the room id (i.e. the link) can join.
+
+export interface WhiteboardRoom {
+  name: string;
+  createdBy: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Elements to write (new or changed) and ids to delete, applied together.
+export interface ElementChange {
+  put?: WhiteboardElement[];
+  remove?: string[];
+}
+
+export interface Participant {
+  uid: string;
+  name: string;
+  color: string;
+  cursor: Point | null;
+  lastSeen: number;
+}
+
+// Firestore rejects documents over 1 MiB; generated diagrams are recompressed to stay below this.
+export const MAX_IMAGE_BYTES = 900_000;
+
+// Participants who haven't sent a heartbeat for this long are treated as gone,
+// e.g. when their tab was closed without a chance to clean up.
+export const PRESENCE_HEARTBEAT_MS = 15_000;
+const PRESENCE_TIMEOUT_MS = 45_000;
+
+// Firestore caps a batch at 500 writes.
+const BATCH_SIZE = 400;
+
+export const UNTITLED_BOARD = "Untitled whiteboard";
+const MAX_NAME_LENGTH = 80;
+
+export const boardName = (name: string) => name.replace(/\s+/g, " ").trim().slice(0, MAX_NAME_LENGTH) || UNTITLED_BOARD;
+
+const PARTICIPANT_COLORS = ["#e11d48", "#2563eb", "#16a34a", "#d97706", "#9333ea", "#0891b2", "#db2777", "#4f46e5"];
+
+const roomDoc = (db: Firestore, roomId: string) => doc(db, "whiteboards", roomId);
+
+const elementsCollection = (db: Firestore, roomId: string) =>
+  collection(db, "whiteboards", roomId, "elements");
+
+const presenceCollection = (db: Firestore, roomId: string) =>
+  collection(db, "whiteboards", roomId, "presence");
+
+// Stable per user, so everyone in the room sees the same color for the same person.
+export function participantColor(uid: string): string {
+  let hash = 0;
+  for (const char of uid) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return PARTICIPANT_COLORS[Math.abs(hash) % PARTICIPANT_COLORS.length];
+}
+
+// Returns the new id right away; the write syncs in the background.
+export function createRoom(
+  uid: string,
+  name: string = UNTITLED_BOARD,
+  db: Firestore = defaultDb
+): { id: string; saved: Promise<void> } {
+  const room = doc(collection(db, "whiteboards"));
+  const now = Date.now();
+  const saved = setDoc(room, { name: boardName(name), createdBy: uid, createdAt: now, updatedAt: now });
+  return { id: room.id, saved };
+}
+
+// The name is shared: everyone in the room sees it change.
+export async function renameRoom(roomId: string, name: string, db: Firestore = defaultDb): Promise<void> {
+  await updateDoc(roomDoc(db, roomId), { name: boardName(name), updatedAt: Date.now() });
+}
+
+export async function touchRoom(roomId: string, db: Firestore = defaultDb): Promise<void> {
+  await updateDoc(roomDoc(db, roomId), { updatedAt: Date.now() });
+}
+
+// Firestore doesn't delete subcollections with their parent, so clear them out first.
+// Only the room's creator may delete it.
+export async function deleteRoom(roomId: string, db: Firestore = defaultDb): Promise<void> {
+  for (const subcollection of [elementsCollection(db, roomId), presenceCollection(db, roomId)]) {
+    const docs = (await getDocs(subcollection)).docs;
+    for (let offset = 0; offset < docs.length; offset += BATCH_SIZE) {
+      const batch = writeBatch(db);
+      docs.slice(offset, offset + BATCH_SIZE).forEach((child) => batch.delete(child.ref));
+      await batch.commit();
+    }
+  }
+  await deleteDoc(roomDoc(db, roomId));
+}
+
+export function subscribeToRoom(
+  roomId: string,
+  onChange: (room: WhiteboardRoom | null) => void,
+  db: Firestore = defaultDb
+): Unsubscribe {
+  return onSnapshot(
+    roomDoc(db, roomId),
+    (snapshot) => {
+      const data = snapshot.data();
+      onChange(
+        data
+          ? {
+              name: data.name ?? UNTITLED_BOARD,
+              createdBy: data.createdBy ?? "",
+              createdAt: data.createdAt ?? 0,
+              updatedAt: data.updatedAt ?? data.createdAt ?? 0,
+            }
+          : null
+      );
+    },
+    (error) => console.error("Error listening to whiteboard room:", error)
+  );
+}
+
+export function subscribeToElements(
+  roomId: string,
+  onChange: (elements: WhiteboardElement[]) => void,
+  db: Firestore = defaultDb
+): Unsubscribe {
+  return onSnapshot(
+    query(elementsCollection(db, roomId), orderBy("createdAt")),
+    (snapshot) => {
+      onChange(snapshot.docs.map((elementDoc) => ({ ...elementDoc.data(), id: elementDoc.id }) as WhiteboardElement));
+    },
+    (error) => console.error("Error listening to whiteboard elements:", error)
+  );
+}
+
+export async function getElements(roomId: string, db: Firestore = defaultDb): Promise<WhiteboardElement[]> {
+  const snapshot = await getDocs(query(elementsCollection(db, roomId), orderBy("createdAt")));
+  return snapshot.docs.map((elementDoc) => ({ ...elementDoc.data(), id: elementDoc.id }) as WhiteboardElement);
+}
+
+// Ids are allocated up front so elements can be drawn locally before they're saved.
+export function newElementId(roomId: string, db: Firestore = defaultDb): string {
+  return doc(elementsCollection(db, roomId)).id;
+}
+
+// Sub-pixel precision isn't visible and roughly halves the document size.
+const roundPoint = ({ x, y, pressure }: StrokePoint): StrokePoint => ({
+  x: Math.round(x * 10) / 10,
+  y: Math.round(y * 10) / 10,
+  pressure: pressure === undefined ? undefined : Math.round(pressure * 100) / 100,
+});
+
+function toStoredElement(element: WhiteboardElement) {
+  const { id: _id, ...data } = element;
+  if (data.type === "pen" || data.type === "highlighter") {
+    return { ...data, points: data.points.map(roundPoint) };
+  }
+  return data;
+}
+
+export async function applyElementChange(
+  roomId: string,
+  { put = [], remove = [] }: ElementChange,
+  db: Firestore = defaultDb
+): Promise<void> {
+  if (put.some((element) => element.type === "image" && element.href.length > MAX_IMAGE_BYTES)) {
+    throw new Error("The image is too large to share.");
+  }
+  const writes = [
+    ...remove.map((id) => (batch: WriteBatch) => batch.delete(doc(elementsCollection(db, roomId), id))),
+    ...put.map((element) => (batch: WriteBatch) =>
+      batch.set(doc(elementsCollection(db, roomId), element.id), toStoredElement(element))
+    ),
+  ];
+  for (let offset = 0; offset < writes.length; offset += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    writes.slice(offset, offset + BATCH_SIZE).forEach((write) => write(batch));
+    await batch.commit();
+  }
+}
+
+export function subscribeToPresence(
+  roomId: string,
+  onChange: (participants: Participant[]) => void,
+  db: Firestore = defaultDb
+): Unsubscribe {
+  let participants: Participant[] = [];
+  const emitActive = () => onChange(participants.filter((p) => Date.now() - p.lastSeen < PRESENCE_TIMEOUT_MS));
+
+  const unsubscribe = onSnapshot(
+    presenceCollection(db, roomId),
+    (snapshot) => {
+      participants = snapshot.docs.map((participant) => ({ ...(participant.data() as Participant), uid: participant.id }));
+      emitActive();
+    },
+    (error) => console.error("Error listening to whiteboard presence:", error)
+  );
+  // Re-filter periodically so participants who vanished without cleaning up drop off.
+  const interval = setInterval(emitActive, PRESENCE_HEARTBEAT_MS);
+  return () => {
+    clearInterval(interval);
+    unsubscribe();
+  };
+}
+
+export async function updatePresence(
+  roomId: string,
+  participant: Omit<Participant, "lastSeen">,
+  db: Firestore = defaultDb
+): Promise<void> {
+  const { uid, ...data } = participant;
+  await setDoc(doc(presenceCollection(db, roomId), uid), { ...data, lastSeen: Date.now() });
+}
+
+export async function leaveRoom(roomId: string, uid: string, db: Firestore = defaultDb): Promise<void> {
+  await deleteDoc(doc(presenceCollection(db, roomId), uid));
+}
@@ -0,0 +1,91 @@
+// src/lib/flow-client.ts
+import type { Action, z } from "genkit";
+import type { AnswerError } from "@/ai/errors";
+
+// Calls a flow served by abortableRoute (src/ai/route.ts). It's streamFlow from @genkit-ai/next/client
+// with a signal: aborting it closes the connection, which stops the flow on the server too.
+
+type Input<A extends Action> = A extends Action<infer I extends z.ZodTypeAny, any, any> ? z.infer<I> : never;
+type Output<A extends Action> = A extends Action<any, infer O extends z.ZodTypeAny, any> ? z.infer<O> : never;
+type Stream<A extends Action> = A extends Action<any, any, infer S extends z.ZodTypeAny> ? z.infer<S> : never;
+
+export interface StreamFlowRequest<A extends Action> {
+  url: string;
+  headers?: Record<string, string>;
+  input: Input<A>;
+  onChunk: (chunk: Stream<A>) => void;
+  signal?: AbortSignal;
+}
+
+/** An error the flow (or the route's auth check) reported, with its status such as "UNAUTHENTICATED". */
+export class FlowError extends Error {
+  constructor(
+    message: string,
+    readonly status: string
+  ) {
+    super(message);
+    this.name = "FlowError";
+  }
+}
+
+const DELIMITER = "\n\n";
+
+export async function streamFlow<A extends Action>({
+  url,
+  headers,
+  input,
+  onChunk,
+  signal,
+}: StreamFlowRequest<A>): Promise<Output<A>> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { ...headers, "Content-Type": "application/json", Accept: "text/event-stream" },
+    body: JSON.stringify({ data: input }),
+    signal,
+  });
+  if (!response.body) {
+    throw new Error(`${url} responded with ${response.status} and no body.`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    let end: number;
+    while ((end = buffer.indexOf(DELIMITER)) >= 0) {
+      const event = buffer.slice(0, end);
+      buffer = buffer.slice(end + DELIMITER.length);
+      if (event.startsWith("data: ")) {
+        const data = JSON.parse(event.slice("data: ".length));
+        if ("message" in data) onChunk(data.message);
+        else if ("result" in data) return data.result;
+      } else if (event.startsWith("error: ")) {
+        const error = JSON.parse(event.slice("error: ".length));
+        throw new FlowError(error.message ?? "The flow failed.", error.status ?? "UNKNOWN");
+      }
+    }
+  }
+  throw new Error(`${url} closed the stream before sending a result.`);
+}
+
+/**
+ * What to tell the student when streamFlow throws. The route says why it turned a request away, such as
+ * an expired session or an unverified email; anything else means the server couldn't be reached.
+ */
+export function requestError(error: unknown): AnswerError {
+  if (!(error instanceof FlowError)) {
+    return { code: "unknown", message: "There was a problem reaching the AI. Please check your connection and try again." };
+  }
+  switch (error.status) {
+    case "UNAUTHENTICATED":
+    case "PERMISSION_DENIED":
+      return { code: "auth", message: error.message };
+    case "RESOURCE_EXHAUSTED":
+      return { code: "quota", message: error.message };
+    default:
+      // Other failures don't have a message meant for students.
+      return { code: "unknown", message: "An unexpected error occurred while generating the answer." };
+  }
+}
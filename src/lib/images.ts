@@ -0,0 +1,30 @@
+// src/lib/images.ts
+
+// Photos sent with a question. The chat checks these before sending, and the answer flow's input
+// schema checks them again, since anyone signed in can call /api/answer directly.
+export const MAX_QUESTION_IMAGES = 4;
+export const MAX_QUESTION_IMAGE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Downscales an image so its longest side is at most `maxDimension` pixels and
+ * re-encodes it as a JPEG data URI. Transparent areas are flattened onto white.
+ */
+export async function resizeImageToDataUri(image: Blob, maxDimension: number, quality = 0.85): Promise<string> {
+  const bitmap = await createImageBitmap(image);
+  try {
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Canvas is not supported in this browser.");
+    }
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL("image/jpeg", quality);
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,87 @@
+// src/lib/pdf.ts
+
+/**
+ * Writes a PDF with one JPEG image filling each page. That's all the whiteboard export needs, and
+ * PDF readers decode JPEGs natively, so there's no need for a PDF library.
+ */
+
+export interface PdfImagePage {
+  // The encoded JPEG and its size in pixels.
+  jpeg: Uint8Array;
+  width: number;
+  height: number;
+}
+
+// Page size and margin in points (1/72 inch); A4 landscape.
+export const PDF_PAGE_WIDTH = 842;
+export const PDF_PAGE_HEIGHT = 595;
+export const PDF_MARGIN = 20;
+
+export function createImagePdf(pages: PdfImagePage[]): Blob {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === "string" ? encoder.encode(part) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const startObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // Objects 1 and 2 are the catalog and page tree; each page then takes three: page, image, contents.
+  const pageIds = pages.map((_, i) => 3 + i * 3);
+
+  write("%PDF-1.4\n%\xff\xff\xff\xff\n");
+  startObject(1);
+  write("<< /Type /Catalog /Pages 2 0 R >>\nendobj\n");
+  startObject(2);
+  write(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((page, i) => {
+    const pageId = pageIds[i];
+    const imageId = pageId + 1;
+    const contentsId = pageId + 2;
+
+    // Fit the image inside the margins, keeping its aspect ratio.
+    const scale = Math.min(
+      (PDF_PAGE_WIDTH - PDF_MARGIN * 2) / page.width,
+      (PDF_PAGE_HEIGHT - PDF_MARGIN * 2) / page.height
+    );
+    const width = page.width * scale;
+    const height = page.height * scale;
+    // PDF's origin is the bottom-left corner.
+    const x = PDF_MARGIN;
+    const y = PDF_PAGE_HEIGHT - PDF_MARGIN - height;
+    const contents = `q ${width.toFixed(2)} 0 0 ${height.toFixed(2)} ${x.toFixed(2)} ${y.toFixed(2)} cm /Im0 Do Q`;
+
+    startObject(pageId);
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+        `/Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentsId} 0 R >>\nendobj\n`
+    );
+    startObject(imageId);
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`
+    );
+    write(page.jpeg);
+    write("\nendstream\nendobj\n");
+    startObject(contentsId);
+    write(`<< /Length ${contents.length} >>\nstream\n${contents}\nendstream\nendobj\n`);
+  });
+
+  const objectCount = 3 + pages.length * 3;
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts, { type: "application/pdf" });
+}
@@ -0,0 +1,81 @@
+// src/lib/quota.ts
+import type { Role } from "@/lib/roles";
+
+// How much each user can ask of the AI. The server counts every call in usage/{uid} (see
+// src/ai/quota.ts) and the app reads the same document to show what's left, so both work out
+// the remaining quota here.
+//
+// Text covers answers and editable diagrams; images covers visual aids and picture diagrams,
+// which cost far more. Days run in UTC.
+
+export type QuotaKind = "text" | "images";
+
+export interface QuotaLimits {
+  requestsPerMinute: number;
+  textPerDay: number;
+  imagesPerDay: number;
+}
+
+export const QUOTA_LIMITS: Record<Role, QuotaLimits> = {
+  student: { requestsPerMinute: 6, textPerDay: 100, imagesPerDay: 10 },
+  teacher: { requestsPerMinute: 12, textPerDay: 300, imagesPerDay: 40 },
+  admin: { requestsPerMinute: 30, textPerDay: 1000, imagesPerDay: 200 },
+};
+
+export interface Usage {
+  // The UTC date the daily counts are for, as YYYY-MM-DD.
+  day: string;
+  text: number;
+  images: number;
+  // Minutes since the epoch, and the requests made during it.
+  minute: number;
+  requests: number;
+}
+
+export type RemainingQuota = Record<QuotaKind, number>;
+
+export const usageDay = (now: number) => new Date(now).toISOString().slice(0, 10);
+export const usageMinute = (now: number) => Math.floor(now / 60_000);
+
+/** The stored usage as of `now`: counts from an earlier day or minute start again from zero. */
+export function currentUsage(stored: Partial<Usage> | undefined, now: number): Usage {
+  const day = usageDay(now);
+  const minute = usageMinute(now);
+  const sameDay = stored?.day === day;
+  const sameMinute = stored?.minute === minute;
+  return {
+    day,
+    text: sameDay ? stored.text ?? 0 : 0,
+    images: sameDay ? stored.images ?? 0 : 0,
+    minute,
+    requests: sameMinute ? stored.requests ?? 0 : 0,
+  };
+}
+
+export function remainingQuota(usage: Usage, role: Role): RemainingQuota {
+  const limits = QUOTA_LIMITS[role];
+  return {
+    text: Math.max(limits.textPerDay - usage.text, 0),
+    images: Math.max(limits.imagesPerDay - usage.images, 0),
+  };
+}
+
+/** When the daily counts start again: the next midnight UTC. */
+export function nextQuotaReset(now: number): Date {
+  const reset = new Date(now);
+  reset.setUTCHours(24, 0, 0, 0);
+  return reset;
+}
+
+const quotaNouns: Record<QuotaKind, [string, string]> = {
+  text: ["AI request", "AI requests"],
+  images: ["image", "images"],
+};
+
+/** For showing under the things that use the quota, e.g. "12 AI requests left today". */
+export function quotaLeftLabel(kind: QuotaKind, left: number, now = Date.now()): string {
+  const [singular, plural] = quotaNouns[kind];
+  if (left > 0) return `${left} ${left === 1 ? singular : plural} left today`;
+  const reset = nextQuotaReset(now).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+  return `No ${plural} left today. More at ${reset}.`;
+}
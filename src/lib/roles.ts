@@ -0,0 +1,29 @@
+// src/lib/roles.ts
+
+// What a user is allowed to do depends on their role, kept as the `role` custom claim on their
+// Firebase ID token. Admins change it from /admin, or with `npm run set-role` (see
+// scripts/set-role.ts); anyone without one is a student.
+//
+// Roles are ranked, so a page for teachers is open to admins too.
+
+export const ROLES = ["student", "teacher", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  student: "Student",
+  teacher: "Teacher",
+  admin: "Admin",
+};
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+export function roleFromClaims(claims: Record<string, unknown>): Role {
+  return isRole(claims.role) ? claims.role : "student";
+}
+
+/** Whether someone with `role` may see what's meant for `required` and above. */
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
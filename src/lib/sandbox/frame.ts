@@ -0,0 +1,105 @@
+// src/lib/sandbox/frame.ts
+// The document for the frame that student code runs in. run-code.ts loads it into an
+// <iframe sandbox="allow-scripts">, which gives it an opaque origin: nothing in it can read the app's
+// cookies, local storage or IndexedDB (where Firebase keeps the user's tokens). Its Content Security
+// Policy also stops it from making requests, except to fetch Pyodide in the Python frame. The code
+// itself runs in a worker inside the frame, so an infinite loop can't freeze the page, and the
+// parent stops it by removing the frame.
+import type { RunnableLanguage } from '@/lib/sandbox/protocol';
+
+const PYODIDE_URL = 'https://cdn.jsdelivr.net/pyodide/v0.27.2/full/';
+
+// Plain JavaScript, because it's inlined into the frame rather than bundled. TypeScript has already
+// been compiled by the time code gets here.
+const WORKER_SOURCE = String.raw`
+const PYODIDE_URL = ${JSON.stringify(PYODIDE_URL)};
+
+const post = (message) => self.postMessage(message);
+
+const format = (value) => {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return value.name + ': ' + value.message;
+  try {
+    return JSON.stringify(value, null, 2) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+async function runJavaScript(code) {
+  const write = (stream) => (...args) => post({ type: 'output', stream, text: args.map(format).join(' ') });
+  const studentConsole = {
+    log: write('stdout'),
+    info: write('stdout'),
+    debug: write('stdout'),
+    warn: write('stderr'),
+    error: write('stderr'),
+  };
+  // An async wrapper lets snippets use top-level await.
+  const run = new Function('console', '"use strict"; return (async () => {\n' + code + '\n})();');
+  await run(studentConsole);
+}
+
+let pyodide = null;
+
+async function runPython(code) {
+  if (!pyodide) {
+    post({ type: 'status', status: 'loading' });
+    pyodide = import(PYODIDE_URL + 'pyodide.mjs').then(({ loadPyodide }) => loadPyodide({ indexURL: PYODIDE_URL }));
+  }
+  const python = await pyodide;
+  python.setStdout({ batched: (text) => post({ type: 'output', stream: 'stdout', text }) });
+  python.setStderr({ batched: (text) => post({ type: 'output', stream: 'stderr', text }) });
+  post({ type: 'status', status: 'running' });
+  await python.runPythonAsync(code);
+}
+
+self.onmessage = async (event) => {
+  const { language, code } = event.data;
+  try {
+    if (language === 'python') {
+      await runPython(code);
+    } else {
+      post({ type: 'status', status: 'running' });
+      await runJavaScript(code);
+    }
+    post({ type: 'done' });
+  } catch (e) {
+    post({ type: 'done', error: format(e) });
+  }
+};
+`;
+
+// Passes run requests from the app to the worker, and everything the worker says back to the app.
+const FRAME_SOURCE = String.raw`
+const source = new Blob([${JSON.stringify(WORKER_SOURCE).replace(/</g, '\\u003c')}], { type: 'text/javascript' });
+const worker = new Worker(URL.createObjectURL(source), { type: 'module' });
+worker.onmessage = (event) => parent.postMessage(event.data, '*');
+worker.onerror = (event) => parent.postMessage({ type: 'done', error: event.message || 'The code runner crashed.' }, '*');
+addEventListener('message', (event) => {
+  if (event.source === parent) worker.postMessage(event.data);
+});
+`;
+
+const contentSecurityPolicy = (language: RunnableLanguage) => {
+  const python = language === 'python';
+  return [
+    "default-src 'none'",
+    // 'unsafe-eval' is how the worker runs the snippet; Pyodide also compiles WebAssembly and loads from its CDN.
+    python
+      ? `script-src 'unsafe-inline' 'unsafe-eval' 'wasm-unsafe-eval' ${PYODIDE_URL}`
+      : "script-src 'unsafe-inline' 'unsafe-eval'",
+    'worker-src blob:',
+    python ? `connect-src ${PYODIDE_URL}` : "connect-src 'none'",
+  ].join('; ');
+};
+
+export function frameDocument(language: RunnableLanguage): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta http-equiv="Content-Security-Policy" content="${contentSecurityPolicy(language)}">
+<script>${FRAME_SOURCE}</script>
+</head>
+</html>`;
+}
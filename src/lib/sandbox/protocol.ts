@@ -0,0 +1,16 @@
+// src/lib/sandbox/protocol.ts
+// Messages exchanged between run-code.ts and the frame that runs the code (see frame.ts).
+
+export type RunnableLanguage = 'javascript' | 'typescript' | 'python';
+
+export interface RunRequest {
+  language: RunnableLanguage;
+  code: string;
+}
+
+export type OutputStream = 'stdout' | 'stderr';
+
+export type RunnerMessage =
+  | { type: 'status'; status: 'loading' | 'running' }
+  | { type: 'output'; stream: OutputStream; text: string }
+  | { type: 'done'; error?: string };
@@ -0,0 +1,142 @@
+// src/lib/sandbox/run-code.ts
+import { frameDocument } from '@/lib/sandbox/frame';
+import type { OutputStream, RunnableLanguage, RunnerMessage, RunRequest } from '@/lib/sandbox/protocol';
+
+export type { RunnableLanguage, OutputStream };
+
+export interface OutputLine {
+  stream: OutputStream;
+  text: string;
+}
+
+export interface RunOutcome {
+  error?: string;
+}
+
+export interface RunHandle {
+  done: Promise<RunOutcome>;
+  cancel: () => void;
+}
+
+// Time allowed for the snippet itself; loading Pyodide the first time doesn't count.
+const RUN_TIMEOUT_MS = 10_000;
+
+const languageAliases: Record<string, RunnableLanguage> = {
+  js: 'javascript',
+  javascript: 'javascript',
+  mjs: 'javascript',
+  ts: 'typescript',
+  typescript: 'typescript',
+  py: 'python',
+  python: 'python',
+  python3: 'python',
+};
+
+export function toRunnableLanguage(language: string): RunnableLanguage | null {
+  return languageAliases[language.toLowerCase()] ?? null;
+}
+
+interface Runner {
+  frame: HTMLIFrameElement;
+  loaded: Promise<void>;
+}
+
+// See frame.ts for what keeps the code away from the app.
+function createRunner(language: RunnableLanguage): Runner {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('sandbox', 'allow-scripts');
+  frame.hidden = true;
+  frame.srcdoc = frameDocument(language);
+  const loaded = new Promise<void>(resolve => frame.addEventListener('load', () => resolve(), { once: true }));
+  document.body.appendChild(frame);
+  return { frame, loaded };
+}
+
+const formatError = (e: unknown) => (e instanceof Error ? `${e.name}: ${e.message}` : String(e));
+
+// Snippets are compiled here, so the frame only ever runs plain JavaScript.
+async function compile(language: RunnableLanguage, code: string): Promise<string> {
+  if (language !== 'typescript') return code;
+  const { transform } = await import('sucrase');
+  return transform(code, { transforms: ['typescript'], disableESTransforms: true }).code;
+}
+
+let pythonRunner: Runner | null = null;
+// Runs on the shared Python frame are queued so their output doesn't interleave.
+let pythonQueue: Promise<unknown> = Promise.resolve();
+
+export function runCode(
+  language: RunnableLanguage,
+  code: string,
+  onOutput: (line: OutputLine) => void
+): RunHandle {
+  let cancel = () => {};
+
+  const execute = () => new Promise<RunOutcome>(resolve => {
+    const isPython = language === 'python';
+    if (isPython && !pythonRunner) {
+      pythonRunner = createRunner(language);
+    }
+    const runner = isPython ? pythonRunner! : createRunner(language);
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    let finished = false;
+
+    const finish = (outcome: RunOutcome, remove: boolean) => {
+      if (finished) return;
+      finished = true;
+      clearTimeout(timeout);
+      window.removeEventListener('message', handleMessage);
+      // Removing the frame also ends its worker, however busy it is.
+      if (remove || !isPython) {
+        runner.frame.remove();
+        if (isPython && pythonRunner === runner) pythonRunner = null;
+      }
+      resolve(outcome);
+    };
+
+    cancel = () => finish({ error: 'Run cancelled.' }, true);
+
+    function handleMessage(event: MessageEvent<RunnerMessage>) {
+      // Every window can post to this one, so only listen to our own frame.
+      if (event.source !== runner.frame.contentWindow) return;
+      const message = event.data;
+      if (message.type === 'status' && message.status === 'running') {
+        timeout = setTimeout(
+          () => finish({ error: `Stopped after ${RUN_TIMEOUT_MS / 1000}s. Is there an infinite loop?` }, true),
+          RUN_TIMEOUT_MS
+        );
+      } else if (message.type === 'output') {
+        onOutput({ stream: message.stream, text: String(message.text) });
+      } else if (message.type === 'done') {
+        finish({ error: message.error === undefined ? undefined : String(message.error) }, false);
+      }
+    }
+    window.addEventListener('message', handleMessage);
+
+    Promise.all([compile(language, code), runner.loaded])
+      .then(([source]) => {
+        if (finished) return;
+        const request: RunRequest = { language, code: source };
+        // The frame's origin is opaque, so there's no narrower target to give.
+        runner.frame.contentWindow?.postMessage(request, '*');
+      })
+      .catch(e => finish({ error: formatError(e) }, false));
+  });
+
+  if (language !== 'python') {
+    return { done: execute(), cancel: () => cancel() };
+  }
+
+  let cancelledBeforeStart = false;
+  const done = pythonQueue.then(() =>
+    cancelledBeforeStart ? { error: 'Run cancelled.' } : execute()
+  );
+  pythonQueue = done;
+  return {
+    done,
+    cancel: () => {
+      cancelledBeforeStart = true;
+      cancel();
+    },
+  };
+}
@@ -0,0 +1,239 @@
+// src/lib/whiteboard/diagram-spec.ts
+import * as z from "zod";
+import {
+  elementBounds,
+  estimateTextWidth as textWidth,
+  translateElement,
+  unionBounds,
+  Bounds,
+  Point,
+  WhiteboardElement,
+} from "@/lib/whiteboard/elements";
+
+/**
+ * Editable diagrams: the model describes a diagram as labelled nodes joined by edges, and
+ * `layoutDiagram` turns that into ordinary whiteboard shapes, arrows and text. Unlike a generated
+ * picture, every label is real text that can be corrected and every box can be moved.
+ */
+
+export const MAX_DIAGRAM_NODES = 16;
+export const MAX_LABEL_LENGTH = 48;
+
+const DiagramNodeSchema = z.object({
+  id: z.string().min(1).describe("A short unique id for the node, used by edges to refer to it."),
+  label: z.string().min(1).max(MAX_LABEL_LENGTH).describe("The text shown in the node. Keep it short and spelled correctly."),
+  shape: z
+    .enum(["rectangle", "ellipse"])
+    .optional()
+    .describe("ellipse for start and end points or the central concept, rectangle for everything else."),
+});
+
+const DiagramEdgeSchema = z.object({
+  from: z.string().describe("The id of the node the arrow starts at."),
+  to: z.string().describe("The id of the node the arrow points to."),
+  label: z.string().max(MAX_LABEL_LENGTH).optional().describe("A word or two describing the relationship, if it needs one."),
+});
+
+export const DiagramSpecSchema = z
+  .object({
+    title: z.string().max(80).describe("A short title for the diagram."),
+    direction: z
+      .enum(["TB", "LR"])
+      .describe("TB lays the diagram out top to bottom (hierarchies, processes); LR left to right (sequences, timelines)."),
+    nodes: z.array(DiagramNodeSchema).min(1).max(MAX_DIAGRAM_NODES),
+    edges: z.array(DiagramEdgeSchema).max(MAX_DIAGRAM_NODES * 3),
+  })
+  .superRefine((spec, context) => {
+    const ids = new Set<string>();
+    spec.nodes.forEach((node, i) => {
+      if (ids.has(node.id)) {
+        context.addIssue({ code: z.ZodIssueCode.custom, path: ["nodes", i, "id"], message: `Duplicate node id "${node.id}".` });
+      }
+      ids.add(node.id);
+    });
+    spec.edges.forEach((edge, i) => {
+      for (const end of ["from", "to"] as const) {
+        if (!ids.has(edge[end])) {
+          context.addIssue({ code: z.ZodIssueCode.custom, path: ["edges", i, end], message: `Unknown node id "${edge[end]}".` });
+        }
+      }
+    });
+  });
+export type DiagramSpec = z.infer<typeof DiagramSpecSchema>;
+
+const NODE_FONT_SIZE = 16;
+const EDGE_FONT_SIZE = 14;
+const TITLE_FONT_SIZE = 20;
+const NODE_HEIGHT = 56;
+const NODE_PADDING = 32;
+const MIN_NODE_WIDTH = 120;
+const NODE_GAP = 48;
+const RANK_GAP = 96;
+
+// The text tool sizes text from the stroke width (see textFontSize), so match it to keep edits consistent.
+const strokeWidthForFont = (fontSize: number) => (fontSize - 12) / 2;
+
+type DiagramShape = "rectangle" | "ellipse";
+
+interface PlacedNode extends Bounds {
+  label: string;
+  shape: DiagramShape;
+}
+
+/**
+ * Assigns each node a rank (row or column) so edges point forwards: the longest path to it from a
+ * node with no incoming edges. Edges that close a cycle are left out of the ranking.
+ */
+function rankNodes(spec: DiagramSpec): Map<string, number> {
+  const outgoing = new Map(spec.nodes.map((node) => [node.id, [] as string[]]));
+  spec.edges.forEach((edge) => outgoing.get(edge.from)?.push(edge.to));
+
+  // Depth-first order, dropping edges back to a node still being visited.
+  const forward: [string, string][] = [];
+  const state = new Map<string, "visiting" | "done">();
+  const visit = (id: string) => {
+    state.set(id, "visiting");
+    for (const next of outgoing.get(id) ?? []) {
+      if (state.get(next) === "visiting") continue;
+      forward.push([id, next]);
+      if (!state.has(next)) visit(next);
+    }
+    state.set(id, "done");
+  };
+  spec.nodes.forEach((node) => !state.has(node.id) && visit(node.id));
+
+  const ranks = new Map(spec.nodes.map((node) => [node.id, 0]));
+  // Longest paths in a DAG settle within one pass per node.
+  for (let pass = 0; pass < spec.nodes.length; pass++) {
+    let changed = false;
+    for (const [from, to] of forward) {
+      if (ranks.get(to)! <= ranks.get(from)!) {
+        ranks.set(to, ranks.get(from)! + 1);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+  return ranks;
+}
+
+// Where the line from the node's center towards `toward` crosses its outline.
+function boundaryPoint(node: PlacedNode, toward: Point): Point {
+  const cx = node.x + node.width / 2;
+  const cy = node.y + node.height / 2;
+  const dx = toward.x - cx;
+  const dy = toward.y - cy;
+  if (!dx && !dy) return { x: cx, y: cy };
+  const rx = node.width / 2;
+  const ry = node.height / 2;
+  const scale = node.shape === "ellipse"
+    ? 1 / Math.hypot(dx / rx, dy / ry)
+    : Math.min(dx ? rx / Math.abs(dx) : Infinity, dy ? ry / Math.abs(dy) : Infinity);
+  return { x: cx + dx * scale, y: cy + dy * scale };
+}
+
+interface LayoutOptions {
+  newId: () => string;
+  authorId: string;
+  color: string;
+  // Where to center the diagram.
+  center: Point;
+}
+
+/** Lays the diagram out in ranks and returns the shapes, arrows and text that draw it, in drawing order. */
+export function layoutDiagram(spec: DiagramSpec, { newId, authorId, color, center }: LayoutOptions): WhiteboardElement[] {
+  const ranks = rankNodes(spec);
+  const vertical = spec.direction === "TB";
+
+  const rankCount = Math.max(...ranks.values()) + 1;
+  const byRank: string[][] = Array.from({ length: rankCount }, () => []);
+  spec.nodes.forEach((node) => byRank[ranks.get(node.id)!].push(node.id));
+
+  // Order each rank by where its parents are, which untangles most crossings.
+  const position = new Map<string, number>();
+  byRank.forEach((ids, rank) => {
+    if (rank > 0) {
+      const parentPosition = (id: string) => {
+        const parents = spec.edges.filter((edge) => edge.to === id && position.has(edge.from));
+        return parents.length
+          ? parents.reduce((sum, edge) => sum + position.get(edge.from)!, 0) / parents.length
+          : Number.MAX_SAFE_INTEGER;
+      };
+      ids.sort((a, b) => parentPosition(a) - parentPosition(b));
+    }
+    ids.forEach((id, i) => position.set(id, i));
+  });
+
+  const sizes = new Map(
+    spec.nodes.map((node) => {
+      const shape: DiagramShape = node.shape ?? "rectangle";
+      // Text in an ellipse needs more room, as the sides curve in.
+      const width = Math.max(MIN_NODE_WIDTH, (textWidth(node.label, NODE_FONT_SIZE) + NODE_PADDING) * (shape === "ellipse" ? 1.3 : 1));
+      return [node.id, { label: node.label, shape, width, height: NODE_HEIGHT }];
+    })
+  );
+
+  // Lay out ranks along the main axis and center each one across it, around (0, 0).
+  const placed = new Map<string, PlacedNode>();
+  let along = 0;
+  for (const ids of byRank) {
+    const nodes = ids.map((id) => sizes.get(id)!);
+    const depth = Math.max(...nodes.map((node) => (vertical ? node.height : node.width)));
+    const span = nodes.reduce((sum, node) => sum + (vertical ? node.width : node.height), 0) + NODE_GAP * (nodes.length - 1);
+    let across = -span / 2;
+    ids.forEach((id, i) => {
+      const node = nodes[i];
+      placed.set(id, vertical
+        ? { ...node, x: across, y: along + (depth - node.height) / 2 }
+        : { ...node, x: along + (depth - node.width) / 2, y: across });
+      across += (vertical ? node.width : node.height) + NODE_GAP;
+    });
+    along += depth + RANK_GAP;
+  }
+
+  // Drawn in the order they're added, so labels end up on top of their boxes.
+  const createdAt = Date.now();
+  const elements: WhiteboardElement[] = [];
+  const base = () => ({ id: newId(), authorId, createdAt: createdAt + elements.length });
+  const text = (value: string, fontSize: number, at: Point, fill = color) =>
+    elements.push({ ...base(), type: "text", stroke: fill, strokeWidth: strokeWidthForFont(fontSize), fontSize, text: value, ...at });
+
+  for (const node of placed.values()) {
+    const { x, y, width, height, shape, label } = node;
+    elements.push({ ...base(), type: shape, stroke: color, strokeWidth: 2, x, y, width, height });
+    // Text is positioned by its baseline; this sits it in the middle of the box.
+    text(label, NODE_FONT_SIZE, { x: x + (width - textWidth(label, NODE_FONT_SIZE)) / 2, y: y + height / 2 + NODE_FONT_SIZE * 0.35 });
+  }
+
+  for (const edge of spec.edges) {
+    const from = placed.get(edge.from)!;
+    const to = placed.get(edge.to)!;
+    if (from === to) continue;
+    const toCenter = { x: to.x + to.width / 2, y: to.y + to.height / 2 };
+    const fromCenter = { x: from.x + from.width / 2, y: from.y + from.height / 2 };
+    const start = boundaryPoint(from, toCenter);
+    const end = boundaryPoint(to, fromCenter);
+    elements.push({ ...base(), type: "arrow", stroke: color, strokeWidth: 2, start, end });
+    if (edge.label) {
+      const mid = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+      // Beside the arrow rather than on top of it.
+      const at = vertical
+        ? { x: mid.x + 8, y: mid.y + EDGE_FONT_SIZE * 0.35 }
+        : { x: mid.x - textWidth(edge.label, EDGE_FONT_SIZE) / 2, y: mid.y - 8 };
+      text(edge.label, EDGE_FONT_SIZE, at, "#525252");
+    }
+  }
+
+  if (spec.title) {
+    const top = Math.min(...[...placed.values()].map((node) => node.y));
+    const left = Math.min(...[...placed.values()].map((node) => node.x));
+    const right = Math.max(...[...placed.values()].map((node) => node.x + node.width));
+    text(spec.title, TITLE_FONT_SIZE, { x: (left + right - textWidth(spec.title, TITLE_FONT_SIZE)) / 2, y: top - 32 });
+  }
+
+  // Move the whole diagram so its middle lands on `center`.
+  const bounds = unionBounds(elements.map(elementBounds))!;
+  const dx = center.x - (bounds.x + bounds.width / 2);
+  const dy = center.y - (bounds.y + bounds.height / 2);
+  return elements.map((element) => translateElement(element, dx, dy));
+}
@@ -0,0 +1,103 @@
+// src/lib/whiteboard/document.ts
+import * as z from "zod";
+import type { WhiteboardElement } from "@/lib/whiteboard/elements";
+
+/**
+ * The JSON format whiteboards are saved in outside Firestore: local copies on this device, and
+ * files people export and import. Bump the version whenever the element shapes change, and teach
+ * `parseWhiteboardDocument` to upgrade the older format so existing saves keep opening.
+ */
+
+export const WHITEBOARD_FORMAT = "edumentor-whiteboard";
+export const WHITEBOARD_FORMAT_VERSION = 1;
+
+export interface WhiteboardDocument {
+  format: typeof WHITEBOARD_FORMAT;
+  version: typeof WHITEBOARD_FORMAT_VERSION;
+  name: string;
+  savedAt: number;
+  elements: WhiteboardElement[];
+}
+
+// Thrown for files that aren't whiteboards, are damaged, or come from a newer version of the app.
+export class WhiteboardDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WhiteboardDocumentError";
+  }
+}
+
+const pointSchema = z.object({ x: z.number(), y: z.number() });
+
+const baseSchema = z.object({
+  id: z.string(),
+  authorId: z.string(),
+  createdAt: z.number(),
+});
+
+const strokedSchema = baseSchema.extend({
+  stroke: z.string(),
+  strokeWidth: z.number(),
+});
+
+const boxSchema = { x: z.number(), y: z.number(), width: z.number(), height: z.number() };
+
+const elementSchema = z.discriminatedUnion("type", [
+  strokedSchema.extend({
+    type: z.enum(["pen", "highlighter"]),
+    points: z.array(pointSchema.extend({ pressure: z.number().optional() })).min(1),
+  }),
+  strokedSchema.extend({ type: z.enum(["line", "arrow"]), start: pointSchema, end: pointSchema }),
+  strokedSchema.extend({ type: z.enum(["rectangle", "ellipse"]), ...boxSchema }),
+  strokedSchema.extend({ type: z.literal("text"), x: z.number(), y: z.number(), text: z.string(), fontSize: z.number() }),
+  baseSchema.extend({
+    type: z.literal("image"),
+    ...boxSchema,
+    href: z.string().startsWith("data:image/"),
+    alt: z.string(),
+  }),
+]);
+
+const documentSchema = z.object({
+  format: z.literal(WHITEBOARD_FORMAT),
+  version: z.literal(WHITEBOARD_FORMAT_VERSION),
+  name: z.string(),
+  savedAt: z.number(),
+  elements: z.array(elementSchema),
+});
+
+export function toWhiteboardDocument(name: string, elements: WhiteboardElement[]): WhiteboardDocument {
+  return {
+    format: WHITEBOARD_FORMAT,
+    version: WHITEBOARD_FORMAT_VERSION,
+    name,
+    savedAt: Date.now(),
+    elements,
+  };
+}
+
+export const serializeWhiteboardDocument = (document: WhiteboardDocument) => JSON.stringify(document);
+
+export function parseWhiteboardDocument(json: string): WhiteboardDocument {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new WhiteboardDocumentError("This file isn't valid JSON.");
+  }
+
+  const header = z.object({ format: z.string(), version: z.number() }).safeParse(data);
+  if (!header.success || header.data.format !== WHITEBOARD_FORMAT) {
+    throw new WhiteboardDocumentError("This file isn't a saved whiteboard.");
+  }
+  if (header.data.version > WHITEBOARD_FORMAT_VERSION) {
+    throw new WhiteboardDocumentError("This whiteboard was saved by a newer version of the app.");
+  }
+
+  const parsed = documentSchema.safeParse(data);
+  if (!parsed.success) {
+    console.warn("Invalid whiteboard document:", parsed.error.issues);
+    throw new WhiteboardDocumentError("This whiteboard file is damaged and can't be opened.");
+  }
+  return parsed.data;
+}
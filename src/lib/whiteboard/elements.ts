@@ -0,0 +1,264 @@
+// src/lib/whiteboard/elements.ts
+
+/**
+ * The things that can be drawn on a whiteboard, and the geometry the tools need to work with them.
+ * Coordinates are in world space: the SVG user space of an unbounded board, the same on every screen
+ * whatever part of the board it is showing.
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+interface BaseElement {
+  id: string;
+  authorId: string;
+  // Elements are drawn in creation order.
+  createdAt: number;
+}
+
+interface StrokedElement extends BaseElement {
+  stroke: string;
+  strokeWidth: number;
+}
+
+// Pens and styluses report how hard they're pressed, from 0 to 1; mice and fingers don't.
+export interface StrokePoint extends Point {
+  pressure?: number;
+}
+
+export interface FreehandElement extends StrokedElement {
+  type: 'pen' | 'highlighter';
+  points: StrokePoint[];
+}
+
+export interface LineElement extends StrokedElement {
+  type: 'line' | 'arrow';
+  start: Point;
+  end: Point;
+}
+
+export interface BoxElement extends StrokedElement {
+  type: 'rectangle' | 'ellipse';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextElement extends StrokedElement {
+  type: 'text';
+  x: number;
+  y: number;
+  text: string;
+  fontSize: number;
+}
+
+// An AI-generated diagram, which can be moved and resized and drawn over like anything else.
+export interface ImageElement extends BaseElement {
+  type: 'image';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // A data URI.
+  href: string;
+  alt: string;
+}
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type WhiteboardElement = FreehandElement | LineElement | BoxElement | TextElement | ImageElement;
+export type WhiteboardElementType = WhiteboardElement['type'];
+
+export const HIGHLIGHTER_OPACITY = 0.35;
+// Highlighter strokes are this many times wider than a pen of the same width.
+export const HIGHLIGHTER_WIDTH_SCALE = 4;
+
+export const textFontSize = (strokeWidth: number) => 12 + strokeWidth * 2;
+
+// The rendered width of an element's outline, which is what the eraser has to touch.
+export const renderedWidth = (element: WhiteboardElement) =>
+  element.type === 'image' ? 0
+  : element.type === 'highlighter' ? element.strokeWidth * HIGHLIGHTER_WIDTH_SCALE
+  : element.strokeWidth;
+
+export function boxFromCorners(a: Point, b: Point): Bounds {
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+  };
+}
+
+export function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared)) : 0;
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+const distanceToPolyline = (p: Point, points: Point[]) =>
+  points.length === 1
+    ? Math.hypot(p.x - points[0].x, p.y - points[0].y)
+    : points.slice(1).reduce((min, point, i) => Math.min(min, distanceToSegment(p, points[i], point)), Infinity);
+
+// Roughly how wide a line of text is; the board doesn't measure fonts, so it's an average character width.
+export const estimateTextWidth = (text: string, fontSize: number) => text.length * fontSize * 0.6;
+
+// Text has no outline to touch, so estimate its box from the font size.
+export function textBounds(element: TextElement): Bounds {
+  const width = estimateTextWidth(element.text, element.fontSize);
+  return { x: element.x, y: element.y - element.fontSize, width, height: element.fontSize * 1.25 };
+}
+
+function distanceToEllipse(p: Point, box: Bounds): number {
+  const rx = box.width / 2;
+  const ry = box.height / 2;
+  if (!rx || !ry) {
+    return distanceToSegment(p, { x: box.x, y: box.y }, { x: box.x + box.width, y: box.y + box.height });
+  }
+  const cx = box.x + rx;
+  const cy = box.y + ry;
+  // Scale to a unit circle; good enough for hit testing unless the ellipse is very flat.
+  const angle = Math.atan2((p.y - cy) / ry, (p.x - cx) / rx);
+  return Math.hypot(p.x - (cx + rx * Math.cos(angle)), p.y - (cy + ry * Math.sin(angle)));
+}
+
+/** Whether a circle of the given radius around `p` touches the element's outline. */
+export function hitTest(element: WhiteboardElement, p: Point, radius: number): boolean {
+  const reach = radius + renderedWidth(element) / 2;
+  switch (element.type) {
+    case 'pen':
+    case 'highlighter':
+      return distanceToPolyline(p, element.points) <= reach;
+    case 'line':
+    case 'arrow':
+      return distanceToSegment(p, element.start, element.end) <= reach;
+    case 'rectangle': {
+      const { x, y, width, height } = element;
+      const corners = [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }, { x, y }];
+      return distanceToPolyline(p, corners) <= reach;
+    }
+    case 'ellipse':
+      return distanceToEllipse(p, element) <= reach;
+    case 'text':
+      return isInside(p, textBounds(element), radius);
+    case 'image':
+      return isInside(p, element, radius);
+  }
+}
+
+const isInside = (p: Point, box: Bounds, margin = 0) =>
+  p.x >= box.x - margin && p.x <= box.x + box.width + margin && p.y >= box.y - margin && p.y <= box.y + box.height + margin;
+
+const boundsOfPoints = (points: Point[]): Bounds => {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  return boxFromCorners({ x: Math.min(...xs), y: Math.min(...ys) }, { x: Math.max(...xs), y: Math.max(...ys) });
+};
+
+export function elementBounds(element: WhiteboardElement): Bounds {
+  switch (element.type) {
+    case 'pen':
+    case 'highlighter':
+      return boundsOfPoints(element.points);
+    case 'line':
+    case 'arrow':
+      return boxFromCorners(element.start, element.end);
+    case 'text':
+      return textBounds(element);
+    case 'rectangle':
+    case 'ellipse':
+    case 'image': {
+      const { x, y, width, height } = element;
+      return { x, y, width, height };
+    }
+  }
+}
+
+// The smallest box containing all the given boxes, or null if there are none.
+export function unionBounds(boxes: Bounds[]): Bounds | null {
+  if (!boxes.length) return null;
+  const left = Math.min(...boxes.map(box => box.x));
+  const top = Math.min(...boxes.map(box => box.y));
+  const right = Math.max(...boxes.map(box => box.x + box.width));
+  const bottom = Math.max(...boxes.map(box => box.y + box.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+export function translateElement<T extends WhiteboardElement>(element: T, dx: number, dy: number): T {
+  const move = <P extends Point>(p: P): P => ({ ...p, x: p.x + dx, y: p.y + dy });
+  switch (element.type) {
+    case 'pen':
+    case 'highlighter':
+      return { ...element, points: element.points.map(move) };
+    case 'line':
+    case 'arrow':
+      return { ...element, start: move(element.start), end: move(element.end) };
+    default:
+      return { ...element, x: element.x + dx, y: element.y + dy };
+  }
+}
+
+/** Fits a `width` x `height` box inside `area`, centered, keeping its aspect ratio. */
+export function fitInside(width: number, height: number, area: Bounds): Bounds {
+  const scale = Math.min(area.width / width, area.height / height);
+  return {
+    x: area.x + (area.width - width * scale) / 2,
+    y: area.y + (area.height - height * scale) / 2,
+    width: width * scale,
+    height: height * scale,
+  };
+}
+
+/**
+ * Cuts the parts of a freehand stroke within `radius` of `p`, returning what's left as
+ * separate runs of points. Returns null if the eraser didn't touch the stroke.
+ */
+export function eraseFromFreehand(element: FreehandElement, p: Point, radius: number): StrokePoint[][] | null {
+  const reach = radius + renderedWidth(element) / 2;
+  const runs: StrokePoint[][] = [];
+  let current: StrokePoint[] = [];
+  let touched = false;
+  for (const point of element.points) {
+    if (Math.hypot(point.x - p.x, point.y - p.y) <= reach) {
+      touched = true;
+      if (current.length) runs.push(current);
+      current = [];
+    } else {
+      current.push(point);
+    }
+  }
+  if (current.length) runs.push(current);
+  return touched ? runs : null;
+}
+
+// Scales the stroke width by pen pressure; half pressure, the usual resting value, draws at the chosen width.
+export const pressureWidth = (strokeWidth: number, pressure: number) => strokeWidth * (0.4 + pressure * 1.2);
+
+export function freehandPathData(points: Point[]): string {
+  return points.reduce((acc, p, i) => {
+    if (i === 0) return `M ${p.x.toFixed(2)} ${p.y.toFixed(2)}`;
+    return `${acc} L ${p.x.toFixed(2)} ${p.y.toFixed(2)}`;
+  }, '');
+}
+
+// The two barbs of an arrowhead at `end`, scaled to the line width.
+export function arrowHeadPoints(start: Point, end: Point, strokeWidth: number): [Point, Point] {
+  const angle = Math.atan2(end.y - start.y, end.x - start.x);
+  const length = 8 + strokeWidth * 3;
+  const spread = Math.PI / 7;
+  return [
+    { x: end.x - length * Math.cos(angle - spread), y: end.y - length * Math.sin(angle - spread) },
+    { x: end.x - length * Math.cos(angle + spread), y: end.y - length * Math.sin(angle + spread) },
+  ];
+}
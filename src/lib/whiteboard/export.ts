@@ -0,0 +1,232 @@
+// src/lib/whiteboard/export.ts
+import { createImagePdf, PdfImagePage, PDF_MARGIN, PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH } from "@/lib/pdf";
+import {
+  parseWhiteboardDocument,
+  serializeWhiteboardDocument,
+  WhiteboardDocument,
+  WhiteboardDocumentError,
+} from "@/lib/whiteboard/document";
+import { boxFromCorners, elementBounds, unionBounds, Bounds, Point, WhiteboardElement } from "@/lib/whiteboard/elements";
+
+/**
+ * Turns a whiteboard into files people can keep or hand in, and reads back the ones it wrote.
+ * The shapes are copied from the rendered board rather than redrawn, so exports look exactly like
+ * the screen. Exported SVGs carry the board's JSON document in their metadata, which is what
+ * makes them importable again.
+ */
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+const METADATA_ID = "edumentor-whiteboard";
+const PADDING = 20;
+
+// Browsers refuse to allocate canvases much bigger than this on a side.
+const MAX_CANVAS_DIMENSION = 16_384;
+// PDF pages are rendered at twice their size in points, enough to print sharply.
+const PDF_RENDER_SCALE = 2;
+
+export const PNG_SCALES = [1, 2, 4] as const;
+
+// The area worth exporting: everything on the board plus a little room around it.
+export function exportBounds(elements: WhiteboardElement[]): Bounds | null {
+  const content = unionBounds(elements.map(elementBounds));
+  if (!content) return null;
+  return {
+    x: content.x - PADDING,
+    y: content.y - PADDING,
+    width: content.width + PADDING * 2,
+    height: content.height + PADDING * 2,
+  };
+}
+
+interface SvgOptions {
+  // Embedded so the SVG can be imported again.
+  document?: WhiteboardDocument;
+  // Only show what's inside this outline, such as a lasso selection.
+  clip?: Point[];
+}
+
+/** A standalone SVG of `area` showing the shapes in `shapes`, the board's group of rendered elements. */
+export function buildSvg(shapes: SVGGElement, area: Bounds, { document, clip }: SvgOptions = {}): string {
+  const svg = window.document.createElementNS(SVG_NS, "svg");
+  svg.setAttribute("xmlns", SVG_NS);
+  svg.setAttribute("viewBox", `${area.x} ${area.y} ${area.width} ${area.height}`);
+  svg.setAttribute("width", String(Math.round(area.width)));
+  svg.setAttribute("height", String(Math.round(area.height)));
+  // Text uses the page's font on screen; carry it over, as the SVG won't have the page's styles.
+  svg.setAttribute("font-family", getComputedStyle(shapes).fontFamily);
+
+  if (document) {
+    const metadata = window.document.createElementNS(SVG_NS, "metadata");
+    metadata.setAttribute("id", METADATA_ID);
+    metadata.textContent = serializeWhiteboardDocument(document);
+    svg.appendChild(metadata);
+  }
+  const background = window.document.createElementNS(SVG_NS, "rect");
+  for (const [name, value] of Object.entries(area)) background.setAttribute(name, String(value));
+  background.setAttribute("fill", "#ffffff");
+  svg.appendChild(background);
+
+  const content = shapes.cloneNode(true) as SVGGElement;
+  if (clip) {
+    const clipPath = window.document.createElementNS(SVG_NS, "clipPath");
+    clipPath.setAttribute("id", "clip");
+    const polygon = window.document.createElementNS(SVG_NS, "polygon");
+    polygon.setAttribute("points", clip.map(({ x, y }) => `${x},${y}`).join(" "));
+    clipPath.appendChild(polygon);
+    svg.appendChild(clipPath);
+    content.setAttribute("clip-path", "url(#clip)");
+  }
+  svg.appendChild(content);
+
+  return new XMLSerializer().serializeToString(svg);
+}
+
+async function renderToCanvas(svg: string, width: number, height: number): Promise<HTMLCanvasElement> {
+  const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    const canvas = window.document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Canvas is not supported in this browser.");
+    }
+    context.drawImage(image, 0, 0, width, height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Couldn't encode the image."))), type, quality);
+  });
+}
+
+// The largest scale up to `scale` that still fits in a canvas.
+export const pngScale = (area: Bounds, scale: number) =>
+  Math.min(scale, MAX_CANVAS_DIMENSION / Math.max(area.width, area.height));
+
+export async function exportPng(shapes: SVGGElement, area: Bounds, scale: number): Promise<Blob> {
+  const fitted = pngScale(area, scale);
+  const canvas = await renderToCanvas(
+    buildSvg(shapes, area),
+    Math.round(area.width * fitted),
+    Math.round(area.height * fitted)
+  );
+  return canvasToBlob(canvas, "image/png");
+}
+
+// The box around an outline such as a lasso, with a little room so strokes along its edge aren't cut off.
+export function outlineBounds(points: Point[]): Bounds {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const box = boxFromCorners({ x: Math.min(...xs), y: Math.min(...ys) }, { x: Math.max(...xs), y: Math.max(...ys) });
+  return { x: box.x - PADDING, y: box.y - PADDING, width: box.width + PADDING * 2, height: box.height + PADDING * 2 };
+}
+
+/** A JPEG data URI of what's inside `outline`, at most `maxDimension` pixels on its longest side. */
+export async function exportRegionImage(shapes: SVGGElement, outline: Point[], maxDimension: number): Promise<string> {
+  const area = outlineBounds(outline);
+  // Scaled up when small, so handwriting is big enough for the model to read.
+  const scale = Math.min(maxDimension / Math.max(area.width, area.height), 4);
+  const canvas = await renderToCanvas(
+    buildSvg(shapes, area, { clip: outline }),
+    Math.round(area.width * scale),
+    Math.round(area.height * scale)
+  );
+  return canvas.toDataURL("image/jpeg", 0.9);
+}
+
+export const intersects = (a: Bounds, b: Bounds) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+/**
+ * Splits the board into A4 pages at its on-screen size (one board unit to one point), left to
+ * right then top to bottom, leaving out pages with nothing on them.
+ */
+export async function exportPdf(shapes: SVGGElement, area: Bounds, elements: WhiteboardElement[]): Promise<Blob> {
+  const tileWidth = PDF_PAGE_WIDTH - PDF_MARGIN * 2;
+  const tileHeight = PDF_PAGE_HEIGHT - PDF_MARGIN * 2;
+  const columns = Math.ceil(area.width / tileWidth);
+  const rows = Math.ceil(area.height / tileHeight);
+  const boxes = elements.map(elementBounds);
+
+  const pages: PdfImagePage[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const tile = { x: area.x + column * tileWidth, y: area.y + row * tileHeight, width: tileWidth, height: tileHeight };
+      if (!boxes.some((box) => intersects(box, tile))) continue;
+      const width = Math.round(tileWidth * PDF_RENDER_SCALE);
+      const height = Math.round(tileHeight * PDF_RENDER_SCALE);
+      const canvas = await renderToCanvas(buildSvg(shapes, tile), width, height);
+      const jpeg = new Uint8Array(await (await canvasToBlob(canvas, "image/jpeg", 0.92)).arrayBuffer());
+      pages.push({ jpeg, width, height });
+    }
+  }
+  return createImagePdf(pages);
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = window.document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the download a moment to start before the URL goes away.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// A name that's safe to save to disk, from the board's name.
+export const exportFilename = (name: string, extension: string) =>
+  `${name.replace(/[^\w\- ]+/g, "").trim().replace(/\s+/g, "-").toLowerCase() || "whiteboard"}.${extension}`;
+
+/** What an imported file turned out to hold: a board saved by this app, or a picture from somewhere else. */
+export type WhiteboardImport =
+  | { kind: "document"; document: WhiteboardDocument }
+  | { kind: "image"; href: string; width: number; height: number; alt: string };
+
+function readDataUri(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export async function readWhiteboardFile(file: File): Promise<WhiteboardImport> {
+  const text = await file.text();
+  if (file.type === "application/json" || file.name.toLowerCase().endsWith(".json")) {
+    return { kind: "document", document: parseWhiteboardDocument(text) };
+  }
+  if (file.type !== "image/svg+xml" && !file.name.toLowerCase().endsWith(".svg")) {
+    throw new WhiteboardDocumentError("Only SVG and JSON files can be imported.");
+  }
+
+  const svg = new DOMParser().parseFromString(text, "image/svg+xml");
+  if (svg.querySelector("parsererror")) {
+    throw new WhiteboardDocumentError("This SVG file is damaged and can't be opened.");
+  }
+  const metadata = svg.getElementById(METADATA_ID)?.textContent;
+  if (metadata) {
+    return { kind: "document", document: parseWhiteboardDocument(metadata) };
+  }
+
+  // Any other SVG goes on the board as a picture.
+  const href = await readDataUri(new Blob([text], { type: "image/svg+xml" }));
+  const image = new Image();
+  image.src = href;
+  await image.decode();
+  return {
+    kind: "image",
+    href,
+    width: image.naturalWidth || 400,
+    height: image.naturalHeight || 300,
+    alt: file.name.replace(/\.svg$/i, ""),
+  };
+}